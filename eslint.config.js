@@ -0,0 +1,18 @@
+const js = require('@eslint/js');
+const tseslint = require('@typescript-eslint/eslint-plugin');
+const tsParser = require('@typescript-eslint/parser');
+const prettierRecommended = require('eslint-plugin-prettier/recommended');
+
+module.exports = [
+  js.configs.recommended,
+  ...tseslint.configs['flat/recommended'],
+  prettierRecommended,
+  {
+    files: ['**/*.ts'],
+    languageOptions: {
+      parser: tsParser,
+      ecmaVersion: 2020,
+      sourceType: 'module',
+    },
+  },
+];
@@ -0,0 +1,192 @@
+import { isDeepStrictEqual } from 'util';
+import { CompleteNodeDescription } from '../types/node-description';
+
+export type NodeProperty = CompleteNodeDescription['properties'][number];
+export type NodeCredential = NonNullable<CompleteNodeDescription['credentials']>[number];
+
+/**
+ * Get the versions a node description covers
+ */
+export function getVersions(node: CompleteNodeDescription): number[] {
+  return Array.isArray(node.version) ? node.version : [node.version];
+}
+
+/**
+ * Check whether two properties or credentials are shown under the same conditions
+ */
+export function sameDisplayOptions(
+  a: { displayOptions?: unknown },
+  b: { displayOptions?: unknown }
+): boolean {
+  return isDeepStrictEqual(a.displayOptions ?? {}, b.displayOptions ?? {});
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+type DisplayOptions = { show?: Record<string, unknown>; hide?: Record<string, unknown> };
+
+function getDisplayConditions(property: { displayOptions?: DisplayOptions }): {
+  show: Record<string, unknown>;
+  hide: Record<string, unknown>;
+} {
+  return {
+    show: property.displayOptions?.show || {},
+    hide: property.displayOptions?.hide || {},
+  };
+}
+
+/**
+ * Check whether the displayOptions of a property refer to one of the given parameters
+ */
+export function dependsOn(property: { displayOptions?: DisplayOptions }, names: string[]): boolean {
+  const { show, hide } = getDisplayConditions(property);
+  return [...Object.keys(show), ...Object.keys(hide)].some(key =>
+    names.includes(key.replace(/^\//, ''))
+  );
+}
+
+/**
+ * Check whether the displayOptions of a property only refer to the given parameters, so their
+ * values tell for sure whether it is shown
+ */
+export function dependsOnlyOn(
+  property: { displayOptions?: DisplayOptions },
+  names: string[]
+): boolean {
+  const { show, hide } = getDisplayConditions(property);
+  return [...Object.keys(show), ...Object.keys(hide)].every(key =>
+    names.includes(key.replace(/^\//, ''))
+  );
+}
+
+/**
+ * Check whether a property is shown for the given parameter values, conditions on other
+ * parameters are ignored
+ */
+export function isShownFor(
+  property: { displayOptions?: DisplayOptions },
+  values: Record<string, unknown>
+): boolean {
+  const { show, hide } = getDisplayConditions(property);
+
+  for (const [key, expected] of Object.entries(show)) {
+    const name = key.replace(/^\//, '');
+    if (name in values && !toArray(expected).includes(values[name])) return false;
+  }
+  for (const [key, expected] of Object.entries(hide)) {
+    const name = key.replace(/^\//, '');
+    if (name in values && toArray(expected).includes(values[name])) return false;
+  }
+  return true;
+}
+
+// Property types that only show information in the editor and have no value
+const DISPLAY_ONLY_TYPES = ['notice', 'callout'];
+
+/**
+ * Check whether a property is only shown in the editor and never stored in the parameters
+ */
+export function isDisplayOnly(property: NodeProperty): boolean {
+  return DISPLAY_ONLY_TYPES.includes(property.type);
+}
+
+// Property types whose value is always a string
+const STRING_TYPES = [
+  'string',
+  'color',
+  'dateTime',
+  'json',
+  'hidden',
+  'credentialsSelect',
+  'curlImport',
+];
+
+/**
+ * Check whether the value of a property is always a string
+ */
+export function isStringType(property: NodeProperty): boolean {
+  return STRING_TYPES.includes(property.type);
+}
+
+// Group of a fixedCollection, its fields are in values
+export interface NodePropertyGroup {
+  name: string;
+  displayName?: string;
+  description?: string;
+  values?: NodeProperty[];
+}
+
+/**
+ * Get the fields of a collection, n8n stores them in options
+ */
+export function getCollectionFields(property: NodeProperty): NodeProperty[] {
+  return (property.options ?? []) as unknown as NodeProperty[];
+}
+
+/**
+ * Get the groups of a fixedCollection, n8n stores them in options
+ */
+export function getCollectionGroups(property: NodeProperty): NodePropertyGroup[] {
+  return (property.options ?? []) as unknown as NodePropertyGroup[];
+}
+
+export interface ParameterVariant {
+  // Resource and operation values selecting this variant, empty for nodes without them
+  discriminators: Array<{ property: NodeProperty; value: string | number | boolean }>;
+  // Properties shown for those values, a name can appear more than once
+  properties: NodeProperty[];
+}
+
+function hasStaticOptions(property: NodeProperty): boolean {
+  return Array.isArray(property.options) && !property.typeOptions?.loadOptionsMethod;
+}
+
+/**
+ * Split the properties of a node into one variant per resource and operation, based on their
+ * displayOptions. Nodes without resource and operation, or with options loaded at runtime,
+ * get a single variant with every property
+ */
+export function getParameterVariants(properties: NodeProperty[]): ParameterVariant[] {
+  const selectors = properties.filter(p => p.name === 'resource' || p.name === 'operation');
+  const values = properties.filter(p => !isDisplayOnly(p));
+
+  if (selectors.length === 0 || !selectors.every(hasStaticOptions)) {
+    return [{ discriminators: [], properties: values }];
+  }
+
+  const resourceProperty = selectors.find(p => p.name === 'resource');
+  const operationProperties = selectors.filter(p => p.name === 'operation');
+  const parameters = values.filter(p => p.name !== 'resource' && p.name !== 'operation');
+  const variants: ParameterVariant[] = [];
+
+  const resources = resourceProperty
+    ? resourceProperty.options!.map(option => ({ property: resourceProperty, value: option.value }))
+    : [undefined];
+
+  for (const resource of resources) {
+    const resourceValues = resource ? { resource: resource.value } : {};
+    const operations = operationProperties
+      .filter(p => isShownFor(p, resourceValues))
+      .flatMap(p => p.options!.map(option => ({ property: p, value: option.value })));
+
+    if (operations.length === 0) {
+      variants.push({
+        discriminators: resource ? [resource] : [],
+        properties: parameters.filter(p => isShownFor(p, resourceValues)),
+      });
+      continue;
+    }
+
+    for (const operation of operations) {
+      const operationValues = { ...resourceValues, operation: operation.value };
+      variants.push({
+        discriminators: resource ? [resource, operation] : [operation],
+        properties: parameters.filter(p => isShownFor(p, operationValues)),
+      });
+    }
+  }
+
+  return variants;
+}
@@ -0,0 +1,480 @@
+import { isDeepStrictEqual } from 'util';
+import { CompleteNodeDescription } from '../types/node-description';
+import {
+  getCollectionFields,
+  getCollectionGroups,
+  getVersions,
+  NodeCredential,
+  NodeProperty,
+  sameDisplayOptions,
+} from './description-utils';
+
+// Breaking changes make existing workflows fail or behave differently after the update
+export type ChangeSeverity = 'breaking' | 'non-breaking';
+
+export type NodeChangeKind =
+  | 'node-removed'
+  | 'node-added'
+  | 'version-removed'
+  | 'version-bump'
+  | 'property-removed'
+  | 'property-renamed'
+  | 'property-added'
+  | 'type-changed'
+  | 'default-changed'
+  | 'required-changed'
+  | 'display-options-changed'
+  | 'option-removed'
+  | 'option-added'
+  | 'credential-removed'
+  | 'credential-added'
+  | 'credential-changed';
+
+export interface NodeChange {
+  node: string;
+  // Node version the old description covered, not set for added or removed nodes
+  version?: number;
+  kind: NodeChangeKind;
+  severity: ChangeSeverity;
+  // Property path, nested collection fields are joined with dots
+  path?: string;
+  message: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NodeDiffReport {
+  from: string;
+  to: string;
+  breaking: boolean;
+  summary: {
+    breaking: number;
+    nonBreaking: number;
+  };
+  changes: NodeChange[];
+}
+
+type ReportChange = (change: Omit<NodeChange, 'node' | 'version'>) => void;
+
+function groupByName(nodes: CompleteNodeDescription[]): Map<string, CompleteNodeDescription[]> {
+  const groups = new Map<string, CompleteNodeDescription[]>();
+  for (const node of nodes) {
+    groups.set(node.name, [...(groups.get(node.name) || []), node]);
+  }
+  return groups;
+}
+
+function isEmptyDefault(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+/**
+ * Pair old and new properties by name, preferring the one with the same displayOptions
+ * when a name is used several times (e.g. one `operation` field per resource)
+ */
+function pairProperties(
+  oldProperties: NodeProperty[],
+  newProperties: NodeProperty[]
+): { pairs: Array<[NodeProperty, NodeProperty]>; removed: NodeProperty[]; added: NodeProperty[] } {
+  const unmatched = new Set(newProperties);
+  const matches = new Map<NodeProperty, NodeProperty>();
+
+  for (const before of oldProperties) {
+    const after = [...unmatched].find(p => p.name === before.name && sameDisplayOptions(p, before));
+    if (after) {
+      matches.set(before, after);
+      unmatched.delete(after);
+    }
+  }
+
+  for (const before of oldProperties) {
+    if (matches.has(before)) continue;
+    const after = [...unmatched].find(p => p.name === before.name);
+    if (after) {
+      matches.set(before, after);
+      unmatched.delete(after);
+    }
+  }
+
+  return {
+    pairs: oldProperties.filter(p => matches.has(p)).map(p => [p, matches.get(p)!]),
+    removed: oldProperties.filter(p => !matches.has(p)),
+    added: newProperties.filter(p => unmatched.has(p)),
+  };
+}
+
+function compareOptionValues(
+  before: NodeProperty,
+  after: NodeProperty,
+  path: string,
+  report: ReportChange
+) {
+  const oldValues = (before.options || []).map(o => o.value);
+  const newValues = (after.options || []).map(o => o.value);
+
+  for (const value of oldValues.filter(v => !newValues.includes(v))) {
+    report({
+      kind: 'option-removed',
+      severity: 'breaking',
+      path,
+      message: `Option ${formatValue(value)} of "${path}" was removed`,
+      before: value,
+    });
+  }
+  for (const value of newValues.filter(v => !oldValues.includes(v))) {
+    report({
+      kind: 'option-added',
+      severity: 'non-breaking',
+      path,
+      message: `Option ${formatValue(value)} was added to "${path}"`,
+      after: value,
+    });
+  }
+}
+
+function compareFixedCollection(
+  before: NodeProperty,
+  after: NodeProperty,
+  path: string,
+  report: ReportChange
+) {
+  const oldGroups = getCollectionGroups(before);
+  const newGroups = getCollectionGroups(after);
+
+  for (const group of oldGroups) {
+    const match = newGroups.find(g => g.name === group.name);
+    if (!match) {
+      report({
+        kind: 'option-removed',
+        severity: 'breaking',
+        path,
+        message: `Group "${group.name}" of "${path}" was removed`,
+        before: group.name,
+      });
+      continue;
+    }
+    compareProperties(group.values || [], match.values || [], `${path}.${group.name}.`, report);
+  }
+  for (const group of newGroups.filter(g => !oldGroups.some(o => o.name === g.name))) {
+    report({
+      kind: 'option-added',
+      severity: 'non-breaking',
+      path,
+      message: `Group "${group.name}" was added to "${path}"`,
+      after: group.name,
+    });
+  }
+}
+
+function compareProperty(
+  before: NodeProperty,
+  after: NodeProperty,
+  prefix: string,
+  report: ReportChange
+) {
+  const path = `${prefix}${before.name}`;
+
+  if (!sameDisplayOptions(before, after)) {
+    report({
+      kind: 'display-options-changed',
+      severity: 'non-breaking',
+      path,
+      message: `Display conditions of "${path}" changed`,
+      before: before.displayOptions,
+      after: after.displayOptions,
+    });
+  }
+
+  // Nothing else can be compared meaningfully once the type differs
+  if (before.type !== after.type) {
+    report({
+      kind: 'type-changed',
+      severity: 'breaking',
+      path,
+      message: `Type of "${path}" changed from ${before.type} to ${after.type}`,
+      before: before.type,
+      after: after.type,
+    });
+    return;
+  }
+
+  // n8n doesn't store parameters that equal their default, so saved workflows pick up the new one
+  if (!isDeepStrictEqual(before.default, after.default)) {
+    report({
+      kind: 'default-changed',
+      severity: 'breaking',
+      path,
+      message: `Default of "${path}" changed from ${formatValue(before.default)} to ${formatValue(after.default)}`,
+      before: before.default,
+      after: after.default,
+    });
+  }
+
+  if (!!before.required !== !!after.required) {
+    report({
+      kind: 'required-changed',
+      severity: after.required ? 'breaking' : 'non-breaking',
+      path,
+      message: after.required
+        ? `Property "${path}" is now required`
+        : `Property "${path}" is no longer required`,
+      before: !!before.required,
+      after: !!after.required,
+    });
+  }
+
+  if (before.type === 'options' || before.type === 'multiOptions') {
+    compareOptionValues(before, after, path, report);
+  } else if (before.type === 'collection') {
+    compareProperties(getCollectionFields(before), getCollectionFields(after), `${path}.`, report);
+  } else if (before.type === 'fixedCollection') {
+    compareFixedCollection(before, after, path, report);
+  }
+}
+
+function compareProperties(
+  oldProperties: NodeProperty[],
+  newProperties: NodeProperty[],
+  prefix: string,
+  report: ReportChange
+) {
+  const { pairs, removed, added } = pairProperties(oldProperties, newProperties);
+
+  for (const [before, after] of pairs) {
+    compareProperty(before, after, prefix, report);
+  }
+
+  // A removed and an added property with the same label and type are most likely a rename
+  const renamed = new Set<NodeProperty>();
+  for (const before of removed) {
+    const path = `${prefix}${before.name}`;
+    const after = added.find(
+      p => !renamed.has(p) && p.displayName === before.displayName && p.type === before.type
+    );
+
+    if (after) {
+      renamed.add(after);
+      report({
+        kind: 'property-renamed',
+        severity: 'breaking',
+        path,
+        message: `Property "${path}" was renamed to "${prefix}${after.name}"`,
+        before: before.name,
+        after: after.name,
+      });
+    } else {
+      report({
+        kind: 'property-removed',
+        severity: 'breaking',
+        path,
+        message: `Property "${path}" was removed`,
+        before: before.name,
+      });
+    }
+  }
+
+  for (const after of added.filter(p => !renamed.has(p))) {
+    const path = `${prefix}${after.name}`;
+    const breaking = !!after.required && isEmptyDefault(after.default);
+    report({
+      kind: 'property-added',
+      severity: breaking ? 'breaking' : 'non-breaking',
+      path,
+      message: breaking
+        ? `Required property "${path}" was added without a default`
+        : `Property "${path}" was added`,
+      after: after.name,
+    });
+  }
+}
+
+function compareCredentials(
+  oldCredentials: NodeCredential[],
+  newCredentials: NodeCredential[],
+  report: ReportChange
+) {
+  for (const before of oldCredentials) {
+    const after = newCredentials.find(c => c.name === before.name);
+
+    if (!after) {
+      report({
+        kind: 'credential-removed',
+        severity: 'breaking',
+        message: `Credential "${before.name}" was removed`,
+        before: before.name,
+      });
+      continue;
+    }
+
+    if (!before.required && after.required) {
+      report({
+        kind: 'credential-changed',
+        severity: 'breaking',
+        message: `Credential "${before.name}" is now required`,
+        before: false,
+        after: true,
+      });
+    } else if (before.required && !after.required) {
+      report({
+        kind: 'credential-changed',
+        severity: 'non-breaking',
+        message: `Credential "${before.name}" is no longer required`,
+        before: true,
+        after: false,
+      });
+    }
+
+    if (!sameDisplayOptions(before, after)) {
+      report({
+        kind: 'credential-changed',
+        severity: 'non-breaking',
+        message: `Display conditions of credential "${before.name}" changed`,
+        before: before.displayOptions,
+        after: after.displayOptions,
+      });
+    }
+  }
+
+  for (const after of newCredentials.filter(c => !oldCredentials.some(o => o.name === c.name))) {
+    report({
+      kind: 'credential-added',
+      severity: after.required ? 'breaking' : 'non-breaking',
+      message: after.required
+        ? `Required credential "${after.name}" was added`
+        : `Optional credential "${after.name}" was added`,
+      after: after.name,
+    });
+  }
+}
+
+/**
+ * Compare the descriptions of one node, matching each old version with the description that
+ * covers the same version in the new package
+ */
+function compareNode(
+  name: string,
+  oldNodes: CompleteNodeDescription[],
+  newNodes: CompleteNodeDescription[],
+  changes: NodeChange[]
+) {
+  const oldVersions = [...new Set(oldNodes.flatMap(getVersions))].sort((a, b) => a - b);
+  const newVersions = [...new Set(newNodes.flatMap(getVersions))].sort((a, b) => a - b);
+  const compared = new Set<string>();
+
+  for (const version of oldVersions) {
+    const report: ReportChange = change => changes.push({ node: name, version, ...change });
+    const before = oldNodes.find(n => getVersions(n).includes(version))!;
+    const after = newNodes.find(n => getVersions(n).includes(version));
+
+    if (!after) {
+      report({
+        kind: 'version-removed',
+        severity: 'breaking',
+        message: `Version ${version} is no longer available`,
+        before: version,
+      });
+      continue;
+    }
+
+    // Versions handled by the same descriptions on both sides only need one comparison
+    const pairKey = `${oldNodes.indexOf(before)}:${newNodes.indexOf(after)}`;
+    if (compared.has(pairKey)) continue;
+    compared.add(pairKey);
+
+    compareProperties(before.properties || [], after.properties || [], '', report);
+    compareCredentials(before.credentials || [], after.credentials || [], report);
+  }
+
+  const latestOld = oldVersions[oldVersions.length - 1];
+  const latestNew = newVersions[newVersions.length - 1];
+  if (latestNew > latestOld) {
+    changes.push({
+      node: name,
+      version: latestOld,
+      kind: 'version-bump',
+      severity: 'non-breaking',
+      message: `Latest version changed from ${latestOld} to ${latestNew}`,
+      before: latestOld,
+      after: latestNew,
+    });
+  }
+}
+
+/**
+ * Compare two sets of node descriptions, e.g. two versions of a package, and classify every
+ * change as breaking or non-breaking for existing workflows
+ */
+export function diffNodeDescriptions(
+  oldNodes: CompleteNodeDescription[],
+  newNodes: CompleteNodeDescription[],
+  labels: { from?: string; to?: string } = {}
+): NodeDiffReport {
+  const changes: NodeChange[] = [];
+  const oldByName = groupByName(oldNodes);
+  const newByName = groupByName(newNodes);
+
+  for (const [name, nodes] of oldByName) {
+    const updated = newByName.get(name);
+    if (!updated) {
+      changes.push({
+        node: name,
+        kind: 'node-removed',
+        severity: 'breaking',
+        message: `Node "${nodes[0].displayName}" was removed`,
+      });
+      continue;
+    }
+    compareNode(name, nodes, updated, changes);
+  }
+
+  for (const [name, nodes] of newByName) {
+    if (oldByName.has(name)) continue;
+    changes.push({
+      node: name,
+      kind: 'node-added',
+      severity: 'non-breaking',
+      message: `Node "${nodes[0].displayName}" was added`,
+    });
+  }
+
+  const breaking = changes.filter(c => c.severity === 'breaking').length;
+  return {
+    from: labels.from || 'old',
+    to: labels.to || 'new',
+    breaking: breaking > 0,
+    summary: { breaking, nonBreaking: changes.length - breaking },
+    changes,
+  };
+}
+
+/**
+ * Render a diff report for the terminal
+ */
+export function formatNodeDiff(report: NodeDiffReport): string {
+  const lines = [`🔍 Comparing ${report.from} → ${report.to}`];
+
+  if (report.changes.length === 0) {
+    lines.push('', '✅ No changes found');
+    return lines.join('\n');
+  }
+
+  const nodes = [...new Set(report.changes.map(c => c.node))];
+  for (const node of nodes) {
+    lines.push('', `📦 ${node}`);
+    for (const change of report.changes.filter(c => c.node === node)) {
+      const marker = change.severity === 'breaking' ? '❌' : '➕';
+      const version = change.version !== undefined ? `[v${change.version}] ` : '';
+      lines.push(`  ${marker} ${version}${change.message}`);
+    }
+  }
+
+  lines.push(
+    '',
+    `${report.breaking ? '💥' : '✅'} ${report.summary.breaking} breaking, ${report.summary.nonBreaking} non-breaking changes`
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,296 @@
+import { CompleteCredentialDescription, CompleteNodeDescription } from '../types/node-description';
+import {
+  getCollectionFields,
+  getCollectionGroups,
+  getVersions,
+  NodeProperty,
+  sameDisplayOptions,
+} from './description-utils';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+  | 'duplicate-property'
+  | 'display-options-unknown-property'
+  | 'display-options-unknown-value'
+  | 'invalid-options-default'
+  | 'missing-description'
+  | 'missing-subtitle'
+  | 'undeclared-credential'
+  | 'missing-no-data-expression';
+
+export interface LintIssue {
+  node: string;
+  // Versions covered by the linted description
+  versions: number[];
+  rule: LintRule;
+  severity: LintSeverity;
+  // Property path, nested collection fields are joined with dots
+  path?: string;
+  message: string;
+}
+
+export interface NodeLintReport {
+  summary: {
+    errors: number;
+    warnings: number;
+    infos: number;
+  };
+  issues: LintIssue[];
+}
+
+export interface NodeLintOptions {
+  // Credential types declared by the package, the credential check is skipped without them
+  credentials?: CompleteCredentialDescription[];
+}
+
+type ReportIssue = (issue: Omit<LintIssue, 'node' | 'versions'>) => void;
+
+function isExpression(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith('=');
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+/**
+ * Get the option values of an options property, undefined when they are loaded at runtime
+ */
+function getStaticOptionValues(property: NodeProperty): unknown[] | undefined {
+  if (property.type !== 'options' && property.type !== 'multiOptions') return undefined;
+  if (!Array.isArray(property.options)) return undefined;
+  if (property.typeOptions?.loadOptionsMethod || property.typeOptions?.loadOptions) {
+    return undefined;
+  }
+  return property.options.map(option => option.value);
+}
+
+/**
+ * Get every value the properties with one name can take, undefined when that isn't known
+ */
+function getKnownValues(properties: NodeProperty[]): unknown[] | undefined {
+  const values: unknown[] = [];
+  for (const property of properties) {
+    if (property.type === 'boolean') {
+      values.push(true, false);
+      continue;
+    }
+    const optionValues = getStaticOptionValues(property);
+    if (!optionValues) return undefined;
+    values.push(...optionValues);
+  }
+  return values;
+}
+
+function checkDuplicates(properties: NodeProperty[], prefix: string, report: ReportIssue) {
+  properties.forEach((property, index) => {
+    const duplicate = properties
+      .slice(0, index)
+      .some(other => other.name === property.name && sameDisplayOptions(other, property));
+
+    if (duplicate) {
+      report({
+        rule: 'duplicate-property',
+        severity: 'error',
+        path: `${prefix}${property.name}`,
+        message: `Property "${prefix}${property.name}" is defined more than once with the same displayOptions`,
+      });
+    }
+  });
+}
+
+/**
+ * Check that displayOptions refer to existing properties and values. Like n8n, names are
+ * resolved among the sibling properties unless they start with a slash
+ */
+function checkDisplayOptions(
+  property: NodeProperty,
+  path: string,
+  siblings: NodeProperty[],
+  root: NodeProperty[],
+  report: ReportIssue
+) {
+  for (const mode of ['show', 'hide'] as const) {
+    const conditions = property.displayOptions?.[mode];
+    if (!conditions) continue;
+
+    for (const [key, expected] of Object.entries(conditions)) {
+      // @version, @tool and other special keys don't refer to properties
+      if (key.startsWith('@')) continue;
+
+      const name = key.startsWith('/') ? key.slice(1) : key;
+      const targets = (key.startsWith('/') ? root : siblings).filter(p => p.name === name);
+
+      if (targets.length === 0) {
+        report({
+          rule: 'display-options-unknown-property',
+          severity: 'error',
+          path,
+          message: `displayOptions.${mode} of "${path}" refers to unknown property "${key}"`,
+        });
+        continue;
+      }
+
+      const knownValues = getKnownValues(targets);
+      if (!knownValues) continue;
+
+      const values: unknown[] = Array.isArray(expected) ? expected : [expected];
+      for (const value of values) {
+        // Conditions like { _cnd: { gte: 2 } } can't be checked against the options
+        if (value !== null && typeof value === 'object') continue;
+        if (knownValues.includes(value)) continue;
+
+        report({
+          rule: 'display-options-unknown-value',
+          severity: 'error',
+          path,
+          message: `displayOptions.${mode} of "${path}" expects ${formatValue(value)} for "${key}", which is not one of its options`,
+        });
+      }
+    }
+  }
+}
+
+function checkOptionsDefault(property: NodeProperty, path: string, report: ReportIssue) {
+  const values = getStaticOptionValues(property);
+  if (!values || property.default === undefined || isExpression(property.default)) return;
+
+  const defaults: unknown[] =
+    property.type === 'multiOptions' && Array.isArray(property.default)
+      ? property.default
+      : [property.default];
+  const invalid = defaults.filter(value => !values.includes(value));
+
+  if (invalid.length > 0) {
+    report({
+      rule: 'invalid-options-default',
+      severity: 'error',
+      path,
+      message: `Default ${formatValue(property.default)} of "${path}" is not one of its options`,
+    });
+  }
+}
+
+function lintProperties(
+  properties: NodeProperty[],
+  root: NodeProperty[],
+  prefix: string,
+  report: ReportIssue
+) {
+  checkDuplicates(properties, prefix, report);
+
+  for (const property of properties) {
+    const path = `${prefix}${property.name}`;
+
+    checkDisplayOptions(property, path, properties, root, report);
+    checkOptionsDefault(property, path, report);
+
+    if (property.type === 'collection') {
+      lintProperties(getCollectionFields(property), root, `${path}.`, report);
+    } else if (property.type === 'fixedCollection') {
+      for (const group of getCollectionGroups(property)) {
+        lintProperties(group.values || [], root, `${path}.${group.name}.`, report);
+      }
+    }
+  }
+}
+
+function lintNode(node: CompleteNodeDescription, options: NodeLintOptions, report: ReportIssue) {
+  const properties = node.properties || [];
+
+  if (!node.description) {
+    report({
+      rule: 'missing-description',
+      severity: 'warning',
+      message: 'Node has no description',
+    });
+  }
+  if (!node.subtitle) {
+    report({
+      rule: 'missing-subtitle',
+      severity: 'info',
+      message: 'Node has no subtitle',
+    });
+  }
+
+  lintProperties(properties, properties, '', report);
+
+  for (const property of properties) {
+    const isSelector = property.name === 'resource' || property.name === 'operation';
+    if (isSelector && property.type === 'options' && !property.noDataExpression) {
+      report({
+        rule: 'missing-no-data-expression',
+        severity: 'warning',
+        path: property.name,
+        message: `"${property.name}" should set noDataExpression so it can't be an expression`,
+      });
+    }
+  }
+
+  if (options.credentials) {
+    const declared = new Set(options.credentials.map(credential => credential.name));
+    for (const credential of node.credentials || []) {
+      if (declared.has(credential.name)) continue;
+      report({
+        rule: 'undeclared-credential',
+        severity: 'warning',
+        message: `Credential "${credential.name}" is not declared by the package, fine only if n8n provides it`,
+      });
+    }
+  }
+}
+
+/**
+ * Check node descriptions against the conventions n8n expects from nodes
+ */
+export function lintNodeDescriptions(
+  nodes: CompleteNodeDescription[],
+  options: NodeLintOptions = {}
+): NodeLintReport {
+  const issues: LintIssue[] = [];
+
+  for (const node of nodes) {
+    const versions = getVersions(node);
+    lintNode(node, options, issue => issues.push({ node: node.name, versions, ...issue }));
+  }
+
+  return {
+    summary: {
+      errors: issues.filter(i => i.severity === 'error').length,
+      warnings: issues.filter(i => i.severity === 'warning').length,
+      infos: issues.filter(i => i.severity === 'info').length,
+    },
+    issues,
+  };
+}
+
+const SEVERITY_MARKERS: Record<LintSeverity, string> = {
+  error: '❌',
+  warning: '⚠️ ',
+  info: 'ℹ️ ',
+};
+
+/**
+ * Render a lint report for the terminal
+ */
+export function formatLintReport(report: NodeLintReport, label?: string): string {
+  const lines = label ? [`🔍 Linting ${label}`] : [];
+
+  const targets = [...new Set(report.issues.map(i => `${i.node} v${i.versions.join(', ')}`))];
+  for (const target of targets) {
+    lines.push('', `📦 ${target}`);
+    for (const issue of report.issues.filter(
+      i => `${i.node} v${i.versions.join(', ')}` === target
+    )) {
+      lines.push(`  ${SEVERITY_MARKERS[issue.severity]} ${issue.message} (${issue.rule})`);
+    }
+  }
+
+  const { errors, warnings, infos } = report.summary;
+  lines.push(
+    '',
+    `${errors > 0 ? '💥' : '✅'} ${errors} errors, ${warnings} warnings, ${infos} infos`
+  );
+  return lines.join('\n');
+}
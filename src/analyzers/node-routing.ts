@@ -0,0 +1,307 @@
+import {
+  CompleteNodeDescription,
+  NodeRoutingMap,
+  RoutingOperation,
+  RoutingParameter,
+  RoutingTarget,
+  RoutingVariant,
+} from '../types/node-description';
+import { getParameterVariants, isShownFor, NodeProperty } from './description-utils';
+
+// Expression reading a parameter ($parameter.name or $parameter["name"]) or the own value
+const PARAMETER_REFERENCE = /^\$parameter(?:\.([\w$.]+)|\[\s*["']([^"']+)["']\s*\])$/;
+const CREDENTIAL_REFERENCE = /^\$credentials(?:\.([\w$.]+)|\[\s*["']([^"']+)["']\s*\])$/;
+const EXPRESSION_PART = /\{\{\s*(.+?)\s*\}\}/g;
+
+// Option of an options property, field of a collection or group of a fixedCollection
+type PropertyOption = Partial<NodeProperty> &
+  Partial<NonNullable<NodeProperty['options']>[number]> & { values?: NodeProperty[] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getOptions(property: NodeProperty): PropertyOption[] {
+  return (property.options ?? []) as PropertyOption[];
+}
+
+function isProperty(option: PropertyOption): option is NodeProperty {
+  return Boolean(option.name && option.type);
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return isObject(value) && Object.keys(value).length === 0;
+}
+
+/**
+ * Get the parameter an expression part refers to, `$value` being the parameter the routing
+ * belongs to
+ */
+function getReferencedParameter(expression: string, valueParameter?: string): string | undefined {
+  if (expression === '$value') return valueParameter;
+  const match = PARAMETER_REFERENCE.exec(expression);
+  return match ? match[1] || match[2] : undefined;
+}
+
+/**
+ * Turn an n8n expression such as `=/users/{{$parameter.userId}}` into `/users/{userId}`.
+ * Parameter and credential references become placeholders, other expressions are kept as they
+ * are. Values that aren't expressions are returned unchanged
+ */
+function toTemplate(
+  value: string,
+  valueParameter?: string
+): { template: string; parameters: string[] } {
+  if (!value.startsWith('=')) return { template: value, parameters: [] };
+
+  const parameters: string[] = [];
+  const template = value.slice(1).replace(EXPRESSION_PART, (part, expression: string) => {
+    const parameter = getReferencedParameter(expression, valueParameter);
+    if (parameter) {
+      parameters.push(parameter);
+      return `{${parameter}}`;
+    }
+    const credential = CREDENTIAL_REFERENCE.exec(expression);
+    return credential ? `{${credential[1] || credential[2]}}` : part;
+  });
+  return { template, parameters };
+}
+
+/**
+ * Check whether a value is exactly one reference to a parameter, e.g. `={{$parameter.limit}}`
+ */
+function getValueParameter(value: unknown, valueParameter?: string): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = /^=\{\{\s*(.+?)\s*\}\}$/.exec(value);
+  return match ? getReferencedParameter(match[1], valueParameter) : undefined;
+}
+
+/**
+ * Check whether properties have routing, including nested collection fields
+ */
+function hasRouting(properties: NodeProperty[]): boolean {
+  return properties.some(
+    property =>
+      isObject(property.routing) ||
+      getOptions(property).some(
+        option =>
+          isObject(option.routing) ||
+          (isProperty(option) && hasRouting([option])) ||
+          (Array.isArray(option.values) && hasRouting(option.values))
+      )
+  );
+}
+
+/**
+ * Check whether a node is declarative, sending requests described by its routing instead of
+ * running an execute method
+ */
+export function isDeclarativeNode(node: CompleteNodeDescription): boolean {
+  return isObject(node.requestDefaults) || hasRouting(node.properties || []);
+}
+
+class OperationBuilder {
+  private method?: string;
+  private path?: string;
+  private baseURL?: string;
+  private parameters: RoutingParameter[] = [];
+  private query: Record<string, unknown> = {};
+  private body: Record<string, unknown> = {};
+  private headers: Record<string, string> = {};
+  private variants: RoutingVariant[] = [];
+
+  constructor(private readonly properties: NodeProperty[]) {}
+
+  private findProperty(name: string): NodeProperty | undefined {
+    return this.properties.find(property => property.name === name.split('.')[0]);
+  }
+
+  private addParameter(parameter: RoutingParameter): void {
+    const exists = this.parameters.some(
+      p => p.in === parameter.in && p.property === parameter.property
+    );
+    if (!exists) this.parameters.push(parameter);
+  }
+
+  private addPathParameters(names: string[]): void {
+    for (const name of names) {
+      this.addParameter({
+        parameter: name,
+        in: 'path',
+        property: name,
+        type: this.findProperty(name)?.type ?? 'string',
+        required: true,
+      });
+    }
+  }
+
+  /**
+   * Add fixed values, values that are a parameter reference become mapped parameters
+   */
+  private addValues(
+    target: Exclude<RoutingTarget, 'path'>,
+    values: Record<string, unknown>,
+    valueParameter?: string
+  ): void {
+    const fixed = target === 'query' ? this.query : target === 'body' ? this.body : this.headers;
+    for (const [name, value] of Object.entries(values)) {
+      const parameter = getValueParameter(value, valueParameter);
+      if (parameter) {
+        const property = this.findProperty(parameter);
+        this.addParameter({
+          parameter,
+          in: target,
+          property: name,
+          type: property?.type ?? 'string',
+          required: Boolean(property?.required),
+        });
+      } else {
+        fixed[name] = target === 'header' ? String(value) : value;
+      }
+    }
+  }
+
+  /**
+   * Apply a routing.request on top of the current request, like n8n does. `valueParameter` is
+   * the parameter `$value` refers to. With `asVariant`, its method and URL are only recorded as
+   * a variant of the request
+   */
+  applyRequest(request: unknown, valueParameter?: string, asVariant = false): void {
+    if (!isObject(request)) return;
+
+    const method = typeof request.method === 'string' ? request.method : undefined;
+    const baseURL =
+      typeof request.baseURL === 'string' ? toTemplate(request.baseURL, valueParameter) : undefined;
+    const url =
+      typeof request.url === 'string' ? toTemplate(request.url, valueParameter) : undefined;
+    if (asVariant) {
+      if (method || baseURL || url) {
+        this.variants.push({
+          parameter: valueParameter!,
+          ...(method && { method: method.toUpperCase() }),
+          ...(baseURL && { baseURL: baseURL.template }),
+          ...(url && { path: url.template }),
+        });
+      }
+    } else {
+      if (method) this.method = method;
+      if (baseURL) {
+        this.baseURL = baseURL.template;
+        this.addPathParameters(baseURL.parameters);
+      }
+      if (url) {
+        this.path = url.template;
+        this.addPathParameters(url.parameters);
+      }
+    }
+    if (isObject(request.qs)) this.addValues('query', request.qs, valueParameter);
+    if (isObject(request.body)) this.addValues('body', request.body, valueParameter);
+    if (isObject(request.headers)) this.addValues('header', request.headers, valueParameter);
+  }
+
+  /**
+   * Add a parameter sent with routing.send, and the routing.request of the parameter
+   */
+  applyProperty(property: NodeProperty, parameter: string, required: boolean): void {
+    const routing = property.routing;
+    if (isObject(routing)) {
+      // Nested fields are only in the parameters when added, their requests are left out.
+      // Parameters that can be left empty only change the method or URL when they are set
+      if (!parameter.includes('.')) {
+        this.applyRequest(routing.request, parameter, !required && isEmpty(property.default));
+      }
+
+      const send = routing.send;
+      if (isObject(send)) {
+        // n8n sends to the query string unless the type is body
+        const value =
+          typeof send.value === 'string' && getValueParameter(send.value, parameter) !== parameter
+            ? send.value
+            : undefined;
+        this.addParameter({
+          parameter,
+          in: send.type === 'body' ? 'body' : 'query',
+          property: typeof send.property === 'string' ? send.property : parameter,
+          type: property.type,
+          required,
+          ...(value !== undefined && { value }),
+        });
+      }
+    }
+
+    // Fields of collections, and of the groups of fixed collections
+    for (const option of getOptions(property)) {
+      if (isProperty(option)) {
+        this.applyProperty(option, `${parameter}.${option.name}`, false);
+      } else if (Array.isArray(option.values)) {
+        for (const value of option.values) {
+          this.applyProperty(value, `${parameter}.${option.name}.${value.name}`, false);
+        }
+      }
+    }
+  }
+
+  build(
+    credentials: string[],
+    output: unknown
+  ): Omit<RoutingOperation, 'resource' | 'operation' | 'action'> {
+    return {
+      method: (this.method || 'GET').toUpperCase(),
+      ...(this.baseURL !== undefined && { baseURL: this.baseURL }),
+      ...(this.path !== undefined && { path: this.path }),
+      parameters: this.parameters,
+      ...(Object.keys(this.query).length > 0 && { query: this.query }),
+      ...(Object.keys(this.body).length > 0 && { body: this.body }),
+      ...(Object.keys(this.headers).length > 0 && { headers: this.headers }),
+      credentials,
+      ...(isObject(output) && { output }),
+      ...(this.variants.length > 0 && { variants: this.variants }),
+    };
+  }
+}
+
+/**
+ * Resolve the requestDefaults and routing of a declarative node into the request of every
+ * resource and operation: method, URL, where parameters are sent and which credentials are
+ * used. Returns undefined for programmatic nodes
+ */
+export function buildRoutingMap(node: CompleteNodeDescription): NodeRoutingMap | undefined {
+  if (!isDeclarativeNode(node)) return undefined;
+
+  const operations: RoutingOperation[] = [];
+  for (const variant of getParameterVariants(node.properties || [])) {
+    const values: Record<string, unknown> = {};
+    const selected: Array<PropertyOption | undefined> = [];
+    for (const { property, value } of variant.discriminators) {
+      values[property.name] = value;
+      selected.push(getOptions(property).find(option => option.value === value));
+    }
+
+    const builder = new OperationBuilder(variant.properties);
+    builder.applyRequest(node.requestDefaults);
+    for (const option of selected) {
+      builder.applyRequest(option?.routing?.request);
+    }
+    for (const property of variant.properties) {
+      builder.applyProperty(property, property.name, Boolean(property.required));
+    }
+
+    const credentials = (node.credentials || [])
+      .filter(credential => isShownFor(credential, values))
+      .map(credential => credential.name);
+    const operationOption = selected[selected.length - 1];
+
+    operations.push({
+      ...('resource' in values && { resource: values.resource as RoutingOperation['resource'] }),
+      ...('operation' in values && {
+        operation: values.operation as RoutingOperation['operation'],
+      }),
+      ...(operationOption?.action && { action: operationOption.action }),
+      ...builder.build(credentials, operationOption?.routing?.output),
+    });
+  }
+
+  return { operations };
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { readCatalog, syncCatalog, writeCatalog } from './catalog-sync';
+
+describe('syncCatalog', () => {
+  let server: http.Server;
+  let directory: string;
+  let registryUrl: string;
+
+  before(async () => {
+    // Registry stub without any package
+    server = http.createServer((req, res) => {
+      res.statusCode = 404;
+      res.end('{}');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    registryUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'catalog-sync-test-'));
+  });
+
+  after(async () => {
+    server.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('marks catalog packages missing from the registry as unpublished and skips new ones', async () => {
+    const catalogPath = path.join(directory, 'catalog.json');
+    await writeCatalog(catalogPath, {
+      updatedAt: '',
+      packages: {
+        'n8n-nodes-gone': {
+          version: '1.0.0',
+          extractedAt: '2024-01-01T00:00:00.000Z',
+          checkedAt: '2024-01-01T00:00:00.000Z',
+          status: 'current',
+          nodes: [],
+          credentials: [],
+        },
+      },
+    });
+
+    const summary = await syncCatalog(catalogPath, ['n8n-nodes-typo'], {
+      config: { registry: { registry: registryUrl } },
+    });
+
+    assert.deepEqual(summary.unpublished, ['n8n-nodes-gone']);
+    assert.deepEqual(summary.failed, ['n8n-nodes-typo']);
+    const { packages } = await readCatalog(catalogPath);
+    assert.deepEqual(Object.keys(packages), ['n8n-nodes-gone']);
+    assert.equal(packages['n8n-nodes-gone'].status, 'unpublished');
+    assert.equal(packages['n8n-nodes-gone'].version, '1.0.0');
+  });
+});
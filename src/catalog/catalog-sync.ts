@@ -0,0 +1,207 @@
+import * as fs from 'fs/promises';
+import { NodeExtractor } from '../extractors/node-extractor';
+import {
+  CompleteCredentialDescription,
+  CompleteNodeDescription,
+  ExtractionDiagnostic,
+  ExtractorConfig,
+  PackageInfo,
+} from '../types/node-description';
+import { DownloadError, getPackageInfo } from '../utils/download-utils';
+import { writeFileAtomic } from '../utils/file-utils';
+import { createLimiter } from '../utils/concurrency';
+import { silentLogger } from '../utils/logger';
+import { loadRegistryConfig, ResolvedRegistryConfig } from '../utils/registry-utils';
+
+/**
+ * - current: extracted from the latest version
+ * - deprecated: the latest version is deprecated, its nodes are still extracted
+ * - unpublished: no longer on the registry, the last extracted nodes are kept. New packages that
+ *   aren't on the registry are reported as failed instead and not added
+ * - failed: the registry check or the extraction failed, the last extracted nodes are kept
+ */
+export type CatalogStatus = 'current' | 'deprecated' | 'unpublished' | 'failed';
+
+export interface CatalogEntry {
+  // Version the nodes were extracted from
+  version: string;
+  // Missing when the package was never extracted successfully
+  extractedAt?: string;
+  checkedAt: string;
+  status: CatalogStatus;
+  // Deprecation message or error
+  message?: string;
+  nodes: CompleteNodeDescription[];
+  credentials: CompleteCredentialDescription[];
+  // From the last extraction, successful or not
+  diagnostics?: ExtractionDiagnostic[];
+}
+
+export interface Catalog {
+  updatedAt: string;
+  packages: Record<string, CatalogEntry>;
+}
+
+export interface CatalogSyncOptions {
+  config?: ExtractorConfig;
+  // Extract again even when the latest version is already in the catalog
+  force?: boolean;
+  // Registry checks running at the same time
+  concurrency?: number;
+}
+
+export interface CatalogSyncSummary {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  deprecated: string[];
+  unpublished: string[];
+  failed: string[];
+}
+
+const DEFAULT_CHECK_CONCURRENCY = 8;
+
+/**
+ * Read a catalog file, an empty catalog when it doesn't exist yet
+ */
+export async function readCatalog(filePath: string): Promise<Catalog> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as Catalog;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { updatedAt: new Date().toISOString(), packages: {} };
+    }
+    throw new Error(
+      `Could not read catalog ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+export async function writeCatalog(filePath: string, catalog: Catalog): Promise<void> {
+  catalog.updatedAt = new Date().toISOString();
+  await writeFileAtomic(filePath, JSON.stringify(catalog, null, 2));
+}
+
+/**
+ * Get the latest version of a package, null when it was unpublished
+ */
+async function getLatestVersion(
+  packageName: string,
+  registry: ResolvedRegistryConfig
+): Promise<PackageInfo | null> {
+  try {
+    return await getPackageInfo(packageName, 'latest', registry);
+  } catch (error) {
+    if (error instanceof DownloadError && error.statusCode === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Bring a catalog up to date with the registry: packages with a new latest version are extracted
+ * again, deprecated and unpublished packages are marked. Packages already in the catalog are
+ * checked as well. The catalog is saved after each package, so an interrupted sync keeps the
+ * packages it finished
+ */
+export async function syncCatalog(
+  filePath: string,
+  packageNames: string[],
+  options: CatalogSyncOptions = {}
+): Promise<CatalogSyncSummary> {
+  const catalog = await readCatalog(filePath);
+  const registry = await loadRegistryConfig(options.config?.registry);
+  const logger = options.config?.logger ?? silentLogger;
+  const summary: CatalogSyncSummary = {
+    added: [],
+    updated: [],
+    unchanged: [],
+    deprecated: [],
+    unpublished: [],
+    failed: [],
+  };
+
+  const names = [...new Set([...packageNames, ...Object.keys(catalog.packages)])];
+  logger.info(`🔄 Checking ${names.length} packages against ${registry.registry}`);
+
+  const limit = createLimiter(options.concurrency ?? DEFAULT_CHECK_CONCURRENCY);
+  const checks = names.map(name =>
+    limit(() => getLatestVersion(name, registry)).then(
+      latest => ({ name, latest, error: undefined }),
+      (error: Error) => ({ name, latest: null, error })
+    )
+  );
+
+  for (const check of checks) {
+    const { name, latest, error } = await check;
+    const previous: CatalogEntry | undefined = catalog.packages[name];
+    // Failed and unpublished packages keep what was extracted before
+    const kept = previous ?? { version: '', nodes: [], credentials: [] };
+    const checkedAt = new Date().toISOString();
+
+    if (error) {
+      logger.warn(`⚠️  Could not check ${name}: ${error.message}`);
+      catalog.packages[name] = {
+        ...kept,
+        checkedAt,
+        status: 'failed',
+        message: error.message,
+      };
+      summary.failed.push(name);
+    } else if (!latest && !previous) {
+      // Most likely a mistyped name, not stored so it isn't checked on every sync
+      logger.warn(`⚠️  ${name} was not found on the registry`);
+      summary.failed.push(name);
+      continue;
+    } else if (!latest) {
+      logger.info(`🗑️  ${name} was unpublished`);
+      catalog.packages[name] = {
+        ...kept,
+        checkedAt,
+        status: 'unpublished',
+        message: undefined,
+      };
+      summary.unpublished.push(name);
+    } else if (previous?.extractedAt && previous.version === latest.version && !options.force) {
+      catalog.packages[name] = {
+        ...previous,
+        checkedAt,
+        status: latest.deprecated ? 'deprecated' : 'current',
+        message: latest.deprecated,
+      };
+      (latest.deprecated ? summary.deprecated : summary.unchanged).push(name);
+    } else {
+      const extractor = new NodeExtractor(options.config);
+      try {
+        const nodes = await extractor.extract(`${name}@${latest.version}`);
+        catalog.packages[name] = {
+          version: latest.version,
+          extractedAt: new Date().toISOString(),
+          checkedAt,
+          status: latest.deprecated ? 'deprecated' : 'current',
+          message: latest.deprecated,
+          nodes,
+          credentials: extractor.getCredentials(),
+          diagnostics: extractor.getDiagnostics(),
+        };
+        (previous?.extractedAt ? summary.updated : summary.added).push(name);
+        if (latest.deprecated) summary.deprecated.push(name);
+      } catch (extractError) {
+        const message = extractError instanceof Error ? extractError.message : String(extractError);
+        logger.warn(`⚠️  Could not extract ${name}@${latest.version}: ${message}`);
+        catalog.packages[name] = {
+          ...kept,
+          version: previous ? previous.version : latest.version,
+          checkedAt,
+          status: 'failed',
+          message,
+          diagnostics: extractor.getDiagnostics(),
+        };
+        summary.failed.push(name);
+      }
+    }
+
+    await writeCatalog(filePath, catalog);
+  }
+
+  return summary;
+}
@@ -1,7 +1,25 @@
 #!/usr/bin/env node
 
 import { NodeExtractor } from './extractors/node-extractor';
-import { MultipleNodeExtractor } from './extractors/multiple-node-extractor';
+import { getOptionValue, isPerNodeOutput, parseExtractorOptions } from './commands/options';
+import { runDiffCommand } from './commands/diff';
+import { runLintCommand } from './commands/lint';
+import { runCacheCommand } from './commands/cache';
+import { runDiscoverCommand } from './commands/discover';
+import { runSyncCommand } from './commands/sync';
+import { runServeCommand } from './commands/serve';
+import { runCompatCommand } from './commands/compat';
+import { extractMultiplePackages } from './commands/extract';
+import {
+  createNdjsonWriter,
+  deliverError,
+  deliverResult,
+  parseDeliveryOptions,
+  WebhookDeliveryError,
+} from './commands/delivery';
+import { IntegrityError } from './utils/download-utils';
+import { DOCUMENT_EXTENSIONS } from './generators';
+import { DocumentFormat } from './types/node-description';
 import * as fs from 'fs/promises';
 
 /**
@@ -10,10 +28,52 @@ import * as fs from 'fs/promises';
 export async function main() {
   const args = process.argv.slice(2);
 
+  if (args[0] === 'diff') {
+    await runDiffCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'lint') {
+    await runLintCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'discover') {
+    await runDiscoverCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'sync') {
+    await runSyncCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'serve') {
+    await runServeCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'compat') {
+    await runCompatCommand(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'cache') {
+    await runCacheCommand(args.slice(1));
+    return;
+  }
+
   if (args.length === 0) {
     console.log(`
 Usage: pnpm dev <package-name> [options]
        pnpm dev <package1,package2,...> [options]
+       pnpm dev diff <old> <new> [options]
+       pnpm dev lint <package> [options]
+       pnpm dev discover [options]
+       pnpm dev sync [packages] [options]
+       pnpm dev serve [options]
+       pnpm dev compat <package> --n8n-versions=<versions> [options]
+       pnpm dev cache clean|dir
 
 Examples:
   pnpm dev n8n-nodes-badges
@@ -21,32 +81,107 @@ Examples:
   pnpm dev @n8n-community/n8n-nodes-supabase
   pnpm dev n8n-nodes-tavily,n8n-nodes-badges
   pnpm dev @n8n-community/n8n-nodes-supabase,n8n-nodes-digital-ocean
+  pnpm dev ./n8n-nodes-my-node-1.0.0.tgz
+  pnpm dev ../n8n-nodes-my-node
+  pnpm dev n8n-nodes-badges --output=- | jq '.nodes[].name'
+  pnpm dev n8n-nodes-badges --webhook=https://example.com/hook
+  pnpm dev diff n8n-nodes-badges@1.0.0 n8n-nodes-badges@1.1.0
+  pnpm dev lint n8n-nodes-badges
+  pnpm dev discover --include=n8n-nodes-* --max=50
+  pnpm dev sync --discover --catalog=./catalog.json
+  pnpm dev serve --port=3000 --concurrency=2
+  pnpm dev n8n-nodes-badges --n8n-version=1.80.0
+  pnpm dev compat n8n-nodes-badges --n8n-versions=1.60.0,1.80.0,latest
 
 Options:
   --verbose      Show detailed logs
   --output=DIR   Set output directory (default: current)
+                 --output=- writes the JSON result to stdout, logs go to stderr
+  --ndjson            Write one JSON line per node, credential and diagnostic
+                      to stdout as each package is done, then a summary line
+  --webhook=URL       POST the JSON result to URL, or an error payload
+                      ({"error": true, "message": "..."}) when extraction fails
+  --webhook-header="Name: value"
+                      Header sent to the webhook, can be repeated
+  --webhook-attempts=N
+                      Attempts before giving up on the webhook (default: 5)
+  --backend=MODE      How node files are read: require (default), static or auto
+                      static parses the source without running it, auto falls
+                      back to static when require fails
+  --registry=URL      Registry to download packages from (default: from .npmrc or npmjs)
+  --scope-registry=@scope=URL
+                      Registry for one package scope, can be repeated
+  --registry-token=TOKEN
+                      Bearer token for the default registry, from --registry
+                      or an .npmrc
+  --npmrc=PATH        Read registries and credentials from this .npmrc as well
+  --format=FORMAT     json (default), markdown, typescript, json-schema or openapi
+                      markdown adds an index.md for several packages,
+                      typescript and json-schema describe node parameters,
+                      openapi the API requests of declarative nodes
+  --per-node          With --format=openapi, save one document per declarative
+                      node (<package>.<node>.openapi.json) instead of per package
+  --icons=MODE        copy: save icon files next to the JSON output
+                      inline: embed icons in iconUrl as data URIs
+  --load-timeout=MS   Time limit for loading one node file (default: 10000)
+  --load-memory=MB    Memory limit for loading one node file (default: 512)
+  --side-effects=MODE audit: record filesystem, network, child process and
+                      environment access while node files load, in the
+                      __sideEffects of each node. block: make it fail too
+  --n8n-version=VERSION
+                      Load nodes with the n8n-workflow and n8n-core versions
+                      of this n8n release (default: the package's
+                      peerDependencies, or the latest versions)
+  --install-concurrency=N
+                      Packages installed at the same time when installing
+                      several packages together fails (default: 4)
+  --safe-install      Install dependencies without their install scripts, in
+                      a clean environment with a temporary HOME. The result
+                      lists the dependencies that have install scripts
+  --allow-scripts=NAMES
+                      Dependencies whose install scripts still run with
+                      --safe-install (default: isolated-vm, sqlite3,
+                      better-sqlite3, sharp, bcrypt, canvas)
+  --cache-dir=DIR     Where the n8n runtime, tarballs and results are cached
+                      (default: ~/.cache/n8n-node-extractor)
+  --no-cache          Don't read or write the cache
 
 This will extract the node descriptions in the same format
-as n8n's /types/nodes.json endpoint.
+as n8n's /types/nodes.json endpoint, and the credential types
+in the same format as n8n's /types/credentials.json endpoint.
 
 For multiple packages, the output will be a key-value JSON
-where keys are package names.
+where keys are package names and values hold the status
+(ok or failed), the nodes and the error of each package.
+
+Local tarballs (.tgz) and package directories can be used in
+place of package names. Directories with installed dependencies
+are read in place without running npm install.
+
+Run \`pnpm dev diff\`, \`pnpm dev lint\`, \`pnpm dev compat\`, or
+\`pnpm dev <mode> --help\` for discover, sync and serve, for the options
+of those modes.
     `);
     process.exit(1);
   }
 
   const packageArg = args[0];
-  let verbose = false;
-  let outputDir = process.cwd();
-
-  // Parse options
-  args.slice(1).forEach(arg => {
-    if (arg === '--verbose') {
-      verbose = true;
-    } else if (arg.startsWith('--output=')) {
-      outputDir = arg.split('=')[1];
-    }
-  });
+  const config = parseExtractorOptions(args.slice(1));
+  const format = getOptionValue(args.slice(1), 'format') || 'json';
+  const delivery = parseDeliveryOptions(args.slice(1), config.logger!);
+
+  if (format !== 'json' && !(format in DOCUMENT_EXTENSIONS)) {
+    console.error(`❌ Unknown format: ${format}`);
+    process.exit(1);
+  }
+  if (format !== 'json' && (delivery.stdout || delivery.webhookUrl)) {
+    console.error('❌ Only the json format can be written to stdout or sent to a webhook');
+    process.exit(1);
+  }
+  const perNode = isPerNodeOutput(args.slice(1), format);
+  if (delivery.ndjson) {
+    config.onProgress = createNdjsonWriter(process.stdout);
+  }
 
   let packageNames: string[] = [];
   const isFile = packageArg.endsWith('.json');
@@ -69,34 +204,50 @@ where keys are package names.
     if (packageNames.length === 1) {
       // Single package - use original extractor
       const packageName = packageNames[0];
-      const extractor = new NodeExtractor({ verbose, outputDir });
+      const extractor = new NodeExtractor(config);
 
       await extractor.extract(packageName);
-      extractor.printSummary();
 
-      // Save complete format
-      const filename = `${packageName.replace(/[@\/]/g, '')}.json`;
-      await extractor.saveResults(filename, 'node-descriptions');
+      if (!delivery.stdout) {
+        extractor.printSummary();
 
-      console.log('\n🎉 Extraction finished!');
-      console.log(`📄 File saved: ${filename}`);
-    } else {
-      // Multiple packages - use multiple extractor
-      const extractor = new MultipleNodeExtractor({ verbose, outputDir });
+        // Save complete format, local packages are named after their package.json
+        let filenames: string[];
+        const baseName = extractor.getPackageName().replace(/[@/]/g, '');
+        if (format === 'json') {
+          filenames = [`${baseName}.json`];
+          await extractor.saveResults(filenames[0], 'node-descriptions');
+        } else if (perNode) {
+          filenames = await extractor.saveNodeOpenApiDocuments();
+        } else {
+          filenames = [`${baseName}${DOCUMENT_EXTENSIONS[format as DocumentFormat]}`];
+          await extractor.saveDocument(format as DocumentFormat, filenames[0]);
+        }
 
-      await extractor.extract(packageNames);
-      extractor.printSummary();
+        console.log('\n🎉 Extraction finished!');
+        if (filenames.length === 0) {
+          console.log('📄 No declarative nodes, no files saved');
+        }
+        filenames.forEach(filename => console.log(`📄 File saved: ${filename}`));
+      }
 
-      // Save in key-value format
-      const filename = `multiple-packages.json`;
-      await extractor.saveResults(filename);
-
-      console.log('\n🎉 Extraction finished!');
-      console.log(`📄 File saved: ${filename}`);
-      console.log(`📦 Processed ${packageNames.length} packages`);
+      await deliverResult(extractor.getResults(), delivery);
+    } else {
+      // Multiple packages - use multiple extractor
+      await extractMultiplePackages(packageNames, config, format, delivery, perNode);
+    }
+  } catch (error) {
+    if (error instanceof WebhookDeliveryError) {
+      console.error('📭', error.message);
+      process.exit(1);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    await deliverError(`Node extraction failed for package: ${packageArg}: ${message}`, delivery);
+    if (error instanceof IntegrityError) {
+      console.error('🔒 Tarball integrity check failed:', message);
+      process.exit(1);
     }
-  } catch (error: any) {
-    console.error('❌ Extraction failed:', error.message);
+    console.error('❌ Extraction failed:', message);
     process.exit(1);
   }
 }
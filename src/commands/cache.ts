@@ -0,0 +1,40 @@
+import { CACHE_KINDS, CacheKind, DEFAULT_CACHE_DIR, ExtractionCache } from '../utils/cache-utils';
+import { getOptionValue, getPositionalArgs } from './options';
+
+const CACHE_USAGE = `
+Usage: pnpm dev cache clean [runtime|tarballs|results|npm] [options]
+       pnpm dev cache dir [options]
+
+clean removes the whole cache, or only the n8n runtime installs,
+the downloaded tarballs, the extraction results or the npm cache of
+safe installs.
+dir prints the cache directory.
+
+Options:
+  --cache-dir=DIR     Cache directory (default: ${DEFAULT_CACHE_DIR})
+`;
+
+/**
+ * CLI cache mode: show or clean the persistent cache
+ */
+export async function runCacheCommand(args: string[]): Promise<void> {
+  const [action, kind] = getPositionalArgs(args);
+  const cache = new ExtractionCache(getOptionValue(args, 'cache-dir') || DEFAULT_CACHE_DIR);
+
+  if (action === 'dir') {
+    console.log(cache.directory);
+    return;
+  }
+
+  if (action !== 'clean') {
+    console.log(CACHE_USAGE);
+    process.exit(1);
+  }
+  if (kind && !CACHE_KINDS.includes(kind as CacheKind)) {
+    console.error(`❌ Unknown cache kind: ${kind}`);
+    process.exit(1);
+  }
+
+  await cache.clean(kind as CacheKind | undefined);
+  console.log(`🧹 Cleaned ${kind ? `${kind} cache` : 'cache'} in ${cache.directory}`);
+}
@@ -0,0 +1,82 @@
+import * as fs from 'fs/promises';
+import { checkN8nCompatibility, formatCompatReport } from '../compat/n8n-compat';
+import {
+  getOptionValue,
+  getOptionValues,
+  getPositionalArgs,
+  parseExtractorOptions,
+} from './options';
+
+const COMPAT_USAGE = `
+Usage: pnpm dev compat <package> --n8n-versions=VERSIONS [options]
+
+Extracts <package> once per n8n version, loading it with the
+n8n-workflow and n8n-core versions of that n8n release, and reports
+which versions load it and how the descriptions differ between them.
+
+Examples:
+  pnpm dev compat n8n-nodes-badges --n8n-versions=1.60.0,1.80.0,latest
+  pnpm dev compat ./n8n-nodes-my-node --n8n-versions=1.70.0,next --format=json
+
+Options:
+  --n8n-versions=LIST    Comma separated n8n versions or dist-tags, checked in order
+  --format=FORMAT        text (default) or json
+  --report=FILE          Write the report to FILE instead of the terminal
+  --fail-on-incompatible Exit with code 1 when a version doesn't load every node
+
+The extraction options (--registry, --cache-dir, ...) are supported
+as well, except --backend=static and auto: static doesn't load n8n at
+all, and auto would hide nodes that don't load behind a static read.
+`;
+
+/**
+ * CLI compat mode: check a package against several n8n versions
+ */
+export async function runCompatCommand(args: string[]): Promise<void> {
+  const [source] = getPositionalArgs(args);
+  const n8nVersions = getOptionValues(args, 'n8n-versions');
+  const format = getOptionValue(args, 'format') || 'text';
+
+  if (!source || n8nVersions.length === 0) {
+    console.log(COMPAT_USAGE);
+    process.exit(1);
+  }
+  if (format !== 'text' && format !== 'json') {
+    console.error(`❌ Unknown format: ${format}`);
+    process.exit(1);
+  }
+
+  const reportFile = getOptionValue(args, 'report');
+  const config = parseExtractorOptions(args, !reportFile);
+  if (config.backend === 'static' || config.backend === 'auto') {
+    console.error(
+      `❌ The ${config.backend} backend doesn't show whether n8n loads the nodes, use --backend=require`
+    );
+    process.exit(1);
+  }
+
+  try {
+    const report = await checkN8nCompatibility(source, n8nVersions, config);
+
+    const output = format === 'json' ? JSON.stringify(report, null, 2) : formatCompatReport(report);
+    if (reportFile) {
+      await fs.writeFile(reportFile, output + '\n');
+      console.log(`📄 Report saved: ${reportFile}`);
+    } else {
+      console.log(output);
+    }
+
+    if (
+      args.includes('--fail-on-incompatible') &&
+      report.versions.some(result => result.status !== 'ok')
+    ) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(
+      '❌ Compatibility check failed:',
+      error instanceof Error ? error.message : String(error)
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { PassThrough } from 'node:stream';
+import { after, before, describe, it } from 'node:test';
+import { CompleteCredentialDescription, CompleteNodeDescription } from '../types/node-description';
+import { silentLogger } from '../utils/logger';
+import {
+  createNdjsonWriter,
+  deliverError,
+  deliverResult,
+  DeliveryOptions,
+  parseDeliveryOptions,
+  WebhookDeliveryError,
+} from './delivery';
+
+const NODE = { name: 'foo', displayName: 'Foo' } as CompleteNodeDescription;
+const CREDENTIAL = { name: 'fooApi', displayName: 'Foo API' } as CompleteCredentialDescription;
+
+function readLines(output: PassThrough): unknown[] {
+  const content = String(output.read() ?? '');
+  return content
+    .split('\n')
+    .filter(line => line.length > 0)
+    .map(line => JSON.parse(line));
+}
+
+describe('createNdjsonWriter', () => {
+  it('writes nodes as soon as they are extracted and credentials with their package', () => {
+    const output = new PassThrough();
+    const write = createNdjsonWriter(output);
+
+    write({
+      type: 'node-extracted',
+      packageName: 'n8n-nodes-foo',
+      node: 'foo',
+      displayName: 'Foo',
+      description: NODE,
+    });
+    assert.deepEqual(readLines(output), [
+      { type: 'node', packageName: 'n8n-nodes-foo', node: NODE },
+    ]);
+
+    // Written with the package, once the supported nodes are linked
+    write({
+      type: 'credential-extracted',
+      packageName: 'n8n-nodes-foo',
+      credential: 'fooApi',
+      description: CREDENTIAL,
+    });
+    assert.deepEqual(readLines(output), []);
+
+    const linked = { ...CREDENTIAL, supportedNodes: ['foo'] };
+    write({
+      type: 'package-extracted',
+      packageName: 'n8n-nodes-foo',
+      nodes: 1,
+      cached: false,
+      descriptions: [NODE],
+      credentials: [linked],
+    });
+    assert.deepEqual(readLines(output), [
+      { type: 'credential', packageName: 'n8n-nodes-foo', credential: linked },
+    ]);
+  });
+
+  it('writes cached packages at once', () => {
+    const output = new PassThrough();
+    createNdjsonWriter(output)({
+      type: 'package-extracted',
+      packageName: 'n8n-nodes-foo',
+      nodes: 1,
+      cached: true,
+      descriptions: [NODE],
+      credentials: [CREDENTIAL],
+    });
+
+    assert.deepEqual(readLines(output), [
+      { type: 'node', packageName: 'n8n-nodes-foo', node: NODE },
+      { type: 'credential', packageName: 'n8n-nodes-foo', credential: CREDENTIAL },
+    ]);
+  });
+});
+
+describe('parseDeliveryOptions', () => {
+  it('parses the webhook options', () => {
+    const options = parseDeliveryOptions(
+      [
+        '--webhook=https://example.com/hook',
+        '--webhook-header=Authorization: Bearer a,b',
+        '--webhook-attempts=3',
+      ],
+      silentLogger
+    );
+
+    assert.equal(options.webhookUrl, 'https://example.com/hook');
+    assert.deepEqual(options.webhook.headers, { Authorization: 'Bearer a,b' });
+    assert.equal(options.webhook.attempts, 3);
+  });
+});
+
+describe('deliverResult and deliverError', () => {
+  let server: http.Server;
+  let options: DeliveryOptions;
+  // Status codes answered in order, 200 once they are used up
+  let statusCodes: number[] = [];
+  let received: unknown[] = [];
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => {
+        received.push(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        response.writeHead(statusCodes.shift() ?? 200).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    options = {
+      stdout: false,
+      ndjson: false,
+      webhookUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`,
+      webhook: { attempts: 2, retryDelayMs: 1 },
+      logger: silentLogger,
+    };
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const result = {
+    extractedAt: '2024-01-01T00:00:00.000Z',
+    totalNodes: 1,
+    format: 'node-descriptions',
+    nodes: [NODE],
+    diagnostics: [],
+  };
+
+  it('posts the result to the webhook', async () => {
+    statusCodes = [];
+    received = [];
+    await deliverResult(result, options);
+
+    assert.deepEqual(received, [result]);
+  });
+
+  it('throws when the webhook keeps failing', async () => {
+    statusCodes = [500, 500];
+    received = [];
+
+    await assert.rejects(deliverResult(result, options), WebhookDeliveryError);
+    assert.equal(received.length, 2);
+  });
+
+  it('posts an error payload without throwing', async () => {
+    statusCodes = [500, 500];
+    received = [];
+    await deliverError('Package not found', options);
+
+    assert.equal(received.length, 2);
+    const payload = received[0] as Record<string, unknown>;
+    assert.equal(payload.error, true);
+    assert.equal(payload.message, 'Package not found');
+  });
+});
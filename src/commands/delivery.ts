@@ -0,0 +1,171 @@
+import {
+  ExtractionEvent,
+  ExtractionResult,
+  MultipleExtractionResult,
+} from '../types/node-description';
+import { Logger } from '../utils/logger';
+import {
+  isValidWebhookUrl,
+  postWebhook,
+  WebhookDelivery,
+  WebhookOptions,
+} from '../utils/webhook-utils';
+import { getOptionValue, isStdoutOutput } from './options';
+
+export interface DeliveryOptions {
+  // Write the result to stdout instead of a file
+  stdout: boolean;
+  // Stream the descriptions to stdout as NDJSON, one line per node or credential
+  ndjson: boolean;
+  // POST the result, or an error payload when the extraction fails, to this URL
+  webhookUrl?: string;
+  webhook: WebhookOptions;
+  logger: Logger;
+}
+
+export class WebhookDeliveryError extends Error {
+  constructor(
+    readonly url: string,
+    readonly delivery: WebhookDelivery
+  ) {
+    super(
+      `Could not send the result to ${url} after ${delivery.attempts} attempts (${delivery.error})`
+    );
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+/**
+ * Parse the --output=-, --ndjson and --webhook options of the extract mode
+ */
+export function parseDeliveryOptions(args: string[], logger: Logger): DeliveryOptions {
+  const webhookUrl = getOptionValue(args, 'webhook');
+  if (webhookUrl !== undefined && !isValidWebhookUrl(webhookUrl)) {
+    console.error(`❌ Invalid webhook URL: ${webhookUrl}`);
+    process.exit(1);
+  }
+
+  // Not split on commas like other repeatable options, header values can contain them
+  const headers: Record<string, string> = {};
+  args
+    .filter(arg => arg.startsWith('--webhook-header='))
+    .forEach(arg => {
+      const header = arg.slice('--webhook-header='.length);
+      const separator = header.indexOf(':');
+      if (separator <= 0) {
+        console.error(`❌ Invalid webhook header, expected "Name: value": ${header}`);
+        process.exit(1);
+      }
+      headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+    });
+
+  const attempts = getOptionValue(args, 'webhook-attempts');
+  const webhookAttempts = attempts !== undefined ? parseInt(attempts, 10) : undefined;
+  if (webhookAttempts !== undefined && !(webhookAttempts > 0)) {
+    console.error(`❌ Invalid --webhook-attempts value: ${attempts}`);
+    process.exit(1);
+  }
+
+  return {
+    stdout: isStdoutOutput(args),
+    ndjson: args.includes('--ndjson'),
+    webhookUrl,
+    webhook: { headers, attempts: webhookAttempts, logger },
+    logger,
+  };
+}
+
+function writeLine(output: NodeJS.WritableStream, data: unknown): void {
+  output.write(`${JSON.stringify(data)}\n`);
+}
+
+/**
+ * Create a progress listener writing every node and diagnostic as one JSON line as soon as it
+ * is extracted. Node lines hold the description as read from the file, icons are only inlined in
+ * the final result. Credentials are written with their package, once their supported nodes are
+ * linked. Cached packages are written at once, they have no file events
+ */
+export function createNdjsonWriter(
+  output: NodeJS.WritableStream = process.stdout
+): (event: ExtractionEvent) => void {
+  return event => {
+    if (event.type === 'node-extracted') {
+      writeLine(output, { type: 'node', packageName: event.packageName, node: event.description });
+    } else if (event.type === 'package-extracted') {
+      const { packageName } = event;
+      if (event.cached) {
+        event.descriptions.forEach(node => writeLine(output, { type: 'node', packageName, node }));
+      }
+      event.credentials.forEach(credential =>
+        writeLine(output, { type: 'credential', packageName, credential })
+      );
+    } else if (event.type === 'node-failed' || event.type === 'package-failed') {
+      writeLine(output, {
+        type: 'diagnostic',
+        packageName: event.packageName,
+        diagnostic: event.diagnostic,
+      });
+    }
+  };
+}
+
+/**
+ * Send the result to stdout and the webhook. In NDJSON mode the descriptions were already
+ * streamed, only a summary line is written
+ */
+export async function deliverResult(
+  result: ExtractionResult | MultipleExtractionResult,
+  options: DeliveryOptions
+): Promise<void> {
+  if (options.ndjson) {
+    writeLine(process.stdout, {
+      type: 'summary',
+      extractedAt: result.extractedAt,
+      totalNodes: result.totalNodes,
+      diagnostics: result.diagnostics.length,
+      ...('packages' in result && {
+        totalPackages: result.totalPackages,
+        failedPackages: result.failedPackages,
+      }),
+    });
+  } else if (options.stdout) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  }
+
+  if (options.webhookUrl) {
+    const delivery = await postWebhook(options.webhookUrl, result, options.webhook);
+    if (!delivery.delivered) {
+      throw new WebhookDeliveryError(options.webhookUrl, delivery);
+    }
+    options.logger.info(`📨 Result sent to ${options.webhookUrl}`);
+  }
+}
+
+/**
+ * Link to the GitHub Actions run, sent along with errors as the node-extraction workflow did
+ */
+function getRunUrl(): string | undefined {
+  const { GITHUB_SERVER_URL, GITHUB_REPOSITORY, GITHUB_RUN_ID } = process.env;
+  return GITHUB_SERVER_URL && GITHUB_REPOSITORY && GITHUB_RUN_ID
+    ? `${GITHUB_SERVER_URL}/${GITHUB_REPOSITORY}/actions/runs/${GITHUB_RUN_ID}`
+    : undefined;
+}
+
+/**
+ * Report a failed extraction as an error line in NDJSON mode and as an error payload to the
+ * webhook. Never throws, the extraction error is what gets reported to the user
+ */
+export async function deliverError(message: string, options: DeliveryOptions): Promise<void> {
+  if (options.ndjson) {
+    writeLine(process.stdout, { type: 'error', message });
+  }
+
+  if (options.webhookUrl) {
+    const runUrl = getRunUrl();
+    const body = { error: true, message, ...(runUrl && { run_url: runUrl }) };
+    const delivery = await postWebhook(options.webhookUrl, body, options.webhook);
+    if (!delivery.delivered) {
+      options.logger.error(`❌ Could not send the error to ${options.webhookUrl}`);
+    }
+  }
+}
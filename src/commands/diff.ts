@@ -0,0 +1,66 @@
+import * as fs from 'fs/promises';
+import { diffNodeDescriptions, formatNodeDiff } from '../analyzers/node-diff';
+import { loadExtractionSource } from './sources';
+import { getOptionValue, getPositionalArgs, parseExtractorOptions } from './options';
+
+const DIFF_USAGE = `
+Usage: pnpm dev diff <old> <new> [options]
+
+<old> and <new> are package specs (name@version, local tarballs or
+directories) or result files saved by a previous extraction.
+
+Examples:
+  pnpm dev diff n8n-nodes-badges@1.0.0 n8n-nodes-badges@1.1.0
+  pnpm dev diff n8n-nodes-badges.json ./n8n-nodes-badges-1.1.0.tgz
+
+Options:
+  --format=FORMAT     text (default) or json
+  --report=FILE       Write the report to FILE instead of the terminal
+  --fail-on-breaking  Exit with code 1 when breaking changes are found
+
+The extraction options (--backend, --registry, ...) apply to both packages.
+`;
+
+/**
+ * CLI diff mode: compare the node descriptions of two package versions
+ */
+export async function runDiffCommand(args: string[]): Promise<void> {
+  const [oldSource, newSource] = getPositionalArgs(args);
+  const format = getOptionValue(args, 'format') || 'text';
+
+  if (!oldSource || !newSource) {
+    console.log(DIFF_USAGE);
+    process.exit(1);
+  }
+  if (format !== 'text' && format !== 'json') {
+    console.error(`❌ Unknown format: ${format}`);
+    process.exit(1);
+  }
+
+  const reportFile = getOptionValue(args, 'report');
+  const config = parseExtractorOptions(args, !reportFile);
+
+  try {
+    const before = await loadExtractionSource(oldSource, config);
+    const after = await loadExtractionSource(newSource, config);
+    const report = diffNodeDescriptions(before.nodes, after.nodes, {
+      from: before.label,
+      to: after.label,
+    });
+
+    const output = format === 'json' ? JSON.stringify(report, null, 2) : formatNodeDiff(report);
+    if (reportFile) {
+      await fs.writeFile(reportFile, output + '\n');
+      console.log(`📄 Report saved: ${reportFile}`);
+    } else {
+      console.log(output);
+    }
+
+    if (report.breaking && args.includes('--fail-on-breaking')) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Diff failed:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,104 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { COMMUNITY_NODE_KEYWORD, discoverCommunityPackages } from '../utils/discovery-utils';
+import { loadRegistryConfig } from '../utils/registry-utils';
+import { DOCUMENT_EXTENSIONS } from '../generators';
+import { extractMultiplePackages } from './extract';
+import {
+  getOptionValue,
+  getOptionValues,
+  isPerNodeOutput,
+  isStdoutOutput,
+  parseExtractorOptions,
+} from './options';
+
+const DISCOVER_USAGE = `
+Usage: pnpm dev discover [options]
+
+Finds community node packages through the registry search API
+and extracts them all, like a list of packages would be.
+
+Examples:
+  pnpm dev discover --max=20
+  pnpm dev discover --include=@n8n-community/* --format=markdown
+  pnpm dev discover --exclude=n8n-nodes-test*,*-demo --list
+  pnpm dev discover --registry=http://localhost:4873 --list
+
+Options:
+  --keyword=KEYWORD   Package keyword to search for
+                      (default: ${COMMUNITY_NODE_KEYWORD})
+  --include=PATTERN   Only keep packages matching one of the patterns,
+                      * matches anything, can be repeated or comma separated
+  --exclude=PATTERN   Skip packages matching one of the patterns
+  --max=N             Stop after N packages
+  --list              Only save the discovered packages to
+                      discovered-packages.json, it can be passed back
+                      to the extractor as a package list. With
+                      --output=- the list is written to stdout instead
+
+The extraction options (--format, --backend, --registry, ...)
+are supported as well, the search uses the --registry registry.
+`;
+
+/**
+ * CLI discover mode: search the registry for community node packages and extract them
+ */
+export async function runDiscoverCommand(args: string[]): Promise<void> {
+  if (args.includes('--help')) {
+    console.log(DISCOVER_USAGE);
+    return;
+  }
+
+  const config = parseExtractorOptions(args);
+  const logger = config.logger!;
+  const format = getOptionValue(args, 'format') || 'json';
+  const max = getOptionValue(args, 'max');
+  const maxPackages = max !== undefined ? parseInt(max, 10) : undefined;
+
+  if (format !== 'json' && !(format in DOCUMENT_EXTENSIONS)) {
+    console.error(`❌ Unknown format: ${format}`);
+    process.exit(1);
+  }
+  if (maxPackages !== undefined && !(maxPackages > 0)) {
+    console.error(`❌ Invalid --max value: ${max}`);
+    process.exit(1);
+  }
+  const perNode = isPerNodeOutput(args, format);
+
+  try {
+    const registry = await loadRegistryConfig(config.registry);
+    logger.info(`🔎 Searching ${registry.registry} for community node packages...`);
+    const packages = await discoverCommunityPackages({
+      keyword: getOptionValue(args, 'keyword'),
+      include: getOptionValues(args, 'include'),
+      exclude: getOptionValues(args, 'exclude'),
+      maxPackages,
+      registry,
+    });
+
+    if (packages.length === 0) {
+      logger.error('❌ No packages found');
+      process.exit(1);
+    }
+
+    const packageNames = packages.map(pkg => `${pkg.name}@${pkg.version}`);
+    logger.info(`✅ Found ${packages.length} packages`);
+
+    if (args.includes('--list')) {
+      if (isStdoutOutput(args)) {
+        process.stdout.write(`${JSON.stringify(packageNames, null, 2)}\n`);
+        return;
+      }
+      packageNames.forEach(name => logger.info(`  ${name}`));
+      const filePath = path.join(config.outputDir || process.cwd(), 'discovered-packages.json');
+      await fs.writeFile(filePath, JSON.stringify(packageNames, null, 2));
+      logger.info(`💾 Saved package list to ${filePath}`);
+      return;
+    }
+
+    await extractMultiplePackages(packageNames, config, format, undefined, perNode);
+  } catch (error) {
+    logger.error('❌ Discovery failed:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,43 @@
+import { MultipleNodeExtractor } from '../extractors/multiple-node-extractor';
+import { DocumentFormat, ExtractorConfig } from '../types/node-description';
+import { deliverResult, DeliveryOptions } from './delivery';
+
+/**
+ * Extract several packages and save them in key-value JSON format, or as one document per package
+ * (per node with `perNode`). The JSON result is written to stdout instead of a file, and sent to
+ * a webhook, when requested
+ */
+export async function extractMultiplePackages(
+  packageNames: string[],
+  config: ExtractorConfig,
+  format: string,
+  delivery?: DeliveryOptions,
+  perNode = false
+): Promise<void> {
+  const extractor = new MultipleNodeExtractor(config);
+
+  await extractor.extract(packageNames);
+
+  if (!delivery?.stdout) {
+    extractor.printSummary();
+
+    if (format === 'json') {
+      const filename = `multiple-packages.json`;
+      await extractor.saveResults(filename);
+
+      console.log('\n🎉 Extraction finished!');
+      console.log(`📄 File saved: ${filename}`);
+    } else if (perNode) {
+      await extractor.saveNodeOpenApiDocuments();
+      console.log('\n🎉 Extraction finished!');
+    } else {
+      await extractor.saveDocuments(format as DocumentFormat);
+      console.log('\n🎉 Extraction finished!');
+    }
+    console.log(`📦 Processed ${packageNames.length} packages`);
+  }
+
+  if (delivery) {
+    await deliverResult(extractor.getResults(), delivery);
+  }
+}
@@ -0,0 +1,63 @@
+import * as fs from 'fs/promises';
+import { formatLintReport, lintNodeDescriptions } from '../analyzers/node-lint';
+import { loadExtractionSource } from './sources';
+import { getOptionValue, getPositionalArgs, parseExtractorOptions } from './options';
+
+const LINT_USAGE = `
+Usage: pnpm dev lint <package> [options]
+
+<package> is a package spec (name@version, local tarball or
+directory) or a result file saved by a previous extraction.
+
+Examples:
+  pnpm dev lint n8n-nodes-badges
+  pnpm dev lint ./n8n-nodes-badges.json --format=json
+
+Options:
+  --format=FORMAT     text (default) or json
+  --report=FILE       Write the report to FILE instead of the terminal
+
+Exits with code 1 when an error is found. The extraction options
+(--backend, --registry, ...) are supported as well.
+`;
+
+/**
+ * CLI lint mode: check the node descriptions of a package against n8n conventions
+ */
+export async function runLintCommand(args: string[]): Promise<void> {
+  const [source] = getPositionalArgs(args);
+  const format = getOptionValue(args, 'format') || 'text';
+
+  if (!source) {
+    console.log(LINT_USAGE);
+    process.exit(1);
+  }
+  if (format !== 'text' && format !== 'json') {
+    console.error(`❌ Unknown format: ${format}`);
+    process.exit(1);
+  }
+
+  const reportFile = getOptionValue(args, 'report');
+  const config = parseExtractorOptions(args, !reportFile);
+
+  try {
+    const { label, nodes, credentials } = await loadExtractionSource(source, config);
+    const report = lintNodeDescriptions(nodes, { credentials });
+
+    const output =
+      format === 'json' ? JSON.stringify(report, null, 2) : formatLintReport(report, label);
+    if (reportFile) {
+      await fs.writeFile(reportFile, output + '\n');
+      console.log(`📄 Report saved: ${reportFile}`);
+    } else {
+      console.log(output);
+    }
+
+    if (report.summary.errors > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Lint failed:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { consoleLogger, stderrLogger } from '../utils/logger';
+import { parseExtractorOptions } from './options';
+
+describe('parseExtractorOptions', () => {
+  it('logs to the terminal when results are written to files', () => {
+    assert.equal(parseExtractorOptions(['--output=./out']).logger, consoleLogger);
+  });
+
+  it('logs to stderr when results or reports go to stdout', () => {
+    assert.equal(parseExtractorOptions(['--output=-']).logger, stderrLogger);
+    assert.equal(parseExtractorOptions(['--ndjson']).logger, stderrLogger);
+    assert.equal(parseExtractorOptions(['--format=json'], true).logger, stderrLogger);
+  });
+
+  it('exits with a usage error on load limits that are not positive integers', t => {
+    t.mock.method(console, 'error', () => {});
+    t.mock.method(process, 'exit', (code: number) => {
+      throw new Error(`exit ${code}`);
+    });
+
+    for (const arg of [
+      '--load-timeout=10s',
+      '--load-timeout=0',
+      '--load-memory=1.5',
+      '--load-memory=',
+    ]) {
+      assert.throws(() => parseExtractorOptions([arg]), /exit 1/);
+    }
+    assert.equal(parseExtractorOptions(['--load-timeout=5000']).loadTimeoutMs, 5000);
+    assert.equal(parseExtractorOptions(['--load-memory=256']).loadMemoryLimitMb, 256);
+  });
+});
@@ -0,0 +1,145 @@
+import { ExtractorConfig } from '../types/node-description';
+import { RegistryConfig } from '../utils/registry-utils';
+import { DEFAULT_CACHE_DIR } from '../utils/cache-utils';
+import { consoleLogger, stderrLogger } from '../utils/logger';
+
+/**
+ * Get the value of a --name=value option, the last one wins
+ */
+export function getOptionValue(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const arg = args.filter(a => a.startsWith(prefix)).pop();
+  return arg?.slice(prefix.length);
+}
+
+/**
+ * Get all values of a repeatable --name=value option, comma separated values are split
+ */
+export function getOptionValues(args: string[], name: string): string[] {
+  const prefix = `--${name}=`;
+  return args
+    .filter(a => a.startsWith(prefix))
+    .flatMap(a => a.slice(prefix.length).split(','))
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+}
+
+/**
+ * Get the arguments that are not options
+ */
+export function getPositionalArgs(args: string[]): string[] {
+  return args.filter(arg => !arg.startsWith('--'));
+}
+
+/**
+ * Check if the result is written to stdout instead of a file, logs then go to stderr
+ */
+export function isStdoutOutput(args: string[]): boolean {
+  return getOptionValue(args, 'output') === '-' || args.includes('--ndjson');
+}
+
+/**
+ * Check the --per-node option, saving one OpenAPI document per declarative node instead of
+ * one per package
+ */
+export function isPerNodeOutput(args: string[], format: string): boolean {
+  if (!args.includes('--per-node')) return false;
+  if (format !== 'openapi') {
+    console.error('❌ --per-node only works with --format=openapi');
+    process.exit(1);
+  }
+  return true;
+}
+
+/**
+ * Parse the value of a numeric option, exiting with a usage error unless it is a positive integer
+ */
+function parsePositiveInteger(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    console.error(`❌ Invalid --${name} value: ${value}`);
+    process.exit(1);
+  }
+  return number;
+}
+
+/**
+ * Parse the extraction options shared by all CLI modes, unknown options are ignored. Unlike
+ * the library, the CLI caches and logs to the terminal by default. Modes printing a report
+ * pass `reportToStdout` so their logs go to stderr and the report can be piped
+ */
+export function parseExtractorOptions(args: string[], reportToStdout = false): ExtractorConfig {
+  const config: ExtractorConfig = {
+    verbose: false,
+    outputDir: process.cwd(),
+    cacheDir: DEFAULT_CACHE_DIR,
+    logger: consoleLogger,
+  };
+  const registry: RegistryConfig = {};
+
+  args.forEach(arg => {
+    if (arg === '--verbose') {
+      config.verbose = true;
+    } else if (arg.startsWith('--output=') && arg !== '--output=-') {
+      config.outputDir = arg.split('=')[1];
+    } else if (arg.startsWith('--backend=')) {
+      const value = arg.split('=')[1];
+      if (value !== 'require' && value !== 'static' && value !== 'auto') {
+        console.error(`❌ Unknown backend: ${value}`);
+        process.exit(1);
+      }
+      config.backend = value;
+    } else if (arg.startsWith('--load-timeout=')) {
+      config.loadTimeoutMs = parsePositiveInteger('load-timeout', arg.split('=')[1]);
+    } else if (arg.startsWith('--load-memory=')) {
+      config.loadMemoryLimitMb = parsePositiveInteger('load-memory', arg.split('=')[1]);
+    } else if (arg.startsWith('--n8n-version=')) {
+      config.n8nVersion = arg.slice('--n8n-version='.length);
+    } else if (arg.startsWith('--side-effects=')) {
+      const value = arg.split('=')[1];
+      if (value !== 'off' && value !== 'audit' && value !== 'block') {
+        console.error(`❌ Unknown side effects mode: ${value}`);
+        process.exit(1);
+      }
+      config.sideEffects = value;
+    } else if (arg === '--safe-install') {
+      config.safeInstall = true;
+    } else if (arg.startsWith('--allow-scripts=')) {
+      // Can be repeated, an empty list runs no install scripts at all
+      config.allowScripts = getOptionValues(args, 'allow-scripts');
+    } else if (arg.startsWith('--install-concurrency=')) {
+      config.installConcurrency = parseInt(arg.split('=')[1], 10);
+    } else if (arg.startsWith('--icons=')) {
+      const value = arg.split('=')[1];
+      if (value !== 'reference' && value !== 'copy' && value !== 'inline') {
+        console.error(`❌ Unknown icons mode: ${value}`);
+        process.exit(1);
+      }
+      config.icons = value;
+    } else if (arg.startsWith('--registry=')) {
+      registry.registry = arg.slice('--registry='.length);
+    } else if (arg.startsWith('--scope-registry=')) {
+      const [scope, ...url] = arg.slice('--scope-registry='.length).split('=');
+      registry.scopes = { ...registry.scopes, [scope]: url.join('=') };
+    } else if (arg.startsWith('--registry-token=')) {
+      registry.token = arg.slice('--registry-token='.length);
+    } else if (arg.startsWith('--npmrc=')) {
+      registry.npmrcPath = arg.slice('--npmrc='.length);
+    } else if (arg.startsWith('--cache-dir=')) {
+      config.cacheDir = arg.slice('--cache-dir='.length);
+    }
+  });
+
+  if (reportToStdout || isStdoutOutput(args)) {
+    config.logger = stderrLogger;
+  }
+
+  // Checked last so it wins over --cache-dir
+  if (args.includes('--no-cache')) {
+    config.cacheDir = undefined;
+  }
+
+  config.registry = registry;
+
+  return config;
+}
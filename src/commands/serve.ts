@@ -0,0 +1,67 @@
+import { createExtractionServer } from '../server/extraction-server';
+import { getOptionValue, parseExtractorOptions } from './options';
+
+const SERVE_USAGE = `
+Usage: pnpm dev serve [options]
+
+Runs an HTTP server that extracts packages in the background:
+
+  POST /extract                 {"packages": ["n8n-nodes-badges"], "webhookUrl": "..."}
+                                queues an extraction, returns the job id
+  GET  /jobs/:id                status of a job, with the result once completed
+  GET  /packages/:name/:version cached result of a package version
+
+Completed jobs are POSTed to webhookUrl when given, failed ones as
+{"error": true, "message": "..."}.
+
+Options:
+  --port=PORT         Port to listen on (default: 3000)
+  --host=HOST         Interface to listen on (default: 127.0.0.1)
+  --concurrency=N     Jobs running at the same time (default: 2)
+  --max-queue=N       Jobs waiting to run before new ones are rejected (default: 100)
+  --token=TOKEN       Require "Authorization: Bearer TOKEN" on every request,
+                      defaults to the EXTRACTOR_SERVER_TOKEN environment variable
+
+The extraction options (--backend, --registry, --cache-dir, ...)
+apply to every job.
+`;
+
+/**
+ * CLI serve mode: run the extraction HTTP server until the process is stopped
+ */
+export async function runServeCommand(args: string[]): Promise<void> {
+  if (args.includes('--help')) {
+    console.log(SERVE_USAGE);
+    return;
+  }
+
+  const config = parseExtractorOptions(args);
+  const port = parseInt(getOptionValue(args, 'port') || '3000', 10);
+  const host = getOptionValue(args, 'host') || '127.0.0.1';
+  const concurrency = getOptionValue(args, 'concurrency');
+  const maxQueued = getOptionValue(args, 'max-queue');
+  const token = getOptionValue(args, 'token') || process.env.EXTRACTOR_SERVER_TOKEN;
+
+  const server = createExtractionServer({
+    config,
+    concurrency: concurrency ? parseInt(concurrency, 10) : undefined,
+    maxQueued: maxQueued ? parseInt(maxQueued, 10) : undefined,
+    token,
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, resolve);
+  });
+  console.log(`🌐 Listening on http://${host}:${port}`);
+  if (!token) {
+    console.warn('⚠️  No --token set, anyone who can reach the server can start extractions');
+  }
+
+  const stop = () => {
+    console.log('👋 Shutting down');
+    server.close(() => process.exit(0));
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
@@ -0,0 +1,64 @@
+import * as fs from 'fs/promises';
+import { NodeExtractor } from '../extractors/node-extractor';
+import {
+  CompleteCredentialDescription,
+  CompleteNodeDescription,
+  ExtractorConfig,
+} from '../types/node-description';
+
+export interface ExtractionSource {
+  // Package spec or result file the descriptions came from
+  label: string;
+  nodes: CompleteNodeDescription[];
+  credentials: CompleteCredentialDescription[];
+}
+
+/**
+ * Check whether a CLI argument points to a saved extraction result instead of a package
+ */
+export function isResultFile(source: string): boolean {
+  return source.endsWith('.json');
+}
+
+/**
+ * Read a saved extraction result, both the single package and the multiple package format
+ */
+export async function readResultFile(filePath: string): Promise<ExtractionSource> {
+  const data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+
+  if (Array.isArray(data.nodes)) {
+    return { label: filePath, nodes: data.nodes, credentials: data.credentials || [] };
+  }
+
+  if (data.packages && typeof data.packages === 'object') {
+    const credentials: Record<string, CompleteCredentialDescription[]> = data.credentials || {};
+    return {
+      label: filePath,
+      // Entries are node lists in results saved before package statuses were added
+      nodes: Object.values<CompleteNodeDescription[] | { nodes?: CompleteNodeDescription[] }>(
+        data.packages
+      ).flatMap((entry): CompleteNodeDescription[] =>
+        Array.isArray(entry) ? entry : entry.nodes || []
+      ),
+      credentials: Object.values(credentials).flat(),
+    };
+  }
+
+  throw new Error(`${filePath} is not an extraction result`);
+}
+
+/**
+ * Get node and credential descriptions from a result file or by extracting a package
+ */
+export async function loadExtractionSource(
+  source: string,
+  config: ExtractorConfig
+): Promise<ExtractionSource> {
+  if (isResultFile(source)) {
+    return readResultFile(source);
+  }
+
+  const extractor = new NodeExtractor(config);
+  const nodes = await extractor.extract(source);
+  return { label: source, nodes, credentials: extractor.getCredentials() };
+}
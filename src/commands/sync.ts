@@ -0,0 +1,81 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { syncCatalog } from '../catalog/catalog-sync';
+import { discoverCommunityPackages } from '../utils/discovery-utils';
+import { loadRegistryConfig } from '../utils/registry-utils';
+import { getOptionValue, getPositionalArgs, parseExtractorOptions } from './options';
+
+const SYNC_USAGE = `
+Usage: pnpm dev sync [packages] [options]
+
+Keeps a catalog of extracted packages up to date: packages with a
+new latest version are extracted again, deprecated and unpublished
+packages are marked. Packages already in the catalog are always
+checked, [packages] adds new ones (comma separated names or a
+.json file with a list of names).
+
+Examples:
+  pnpm dev sync n8n-nodes-badges,n8n-nodes-tavily
+  pnpm dev sync --discover --catalog=./catalog.json
+  pnpm dev sync
+
+Options:
+  --catalog=FILE      Catalog file (default: catalog.json in the output directory)
+  --discover          Add all community node packages found on the registry
+  --force             Extract every package again
+
+The extraction options (--backend, --registry, ...) are supported
+as well.
+`;
+
+/**
+ * CLI sync mode: update a catalog, only extracting new and updated packages
+ */
+export async function runSyncCommand(args: string[]): Promise<void> {
+  if (args.includes('--help')) {
+    console.log(SYNC_USAGE);
+    return;
+  }
+
+  const config = parseExtractorOptions(args);
+  const [packageArg] = getPositionalArgs(args);
+  const catalogPath =
+    getOptionValue(args, 'catalog') || path.join(config.outputDir || process.cwd(), 'catalog.json');
+
+  try {
+    let packageNames: string[] = [];
+    if (packageArg?.endsWith('.json')) {
+      packageNames = JSON.parse(await fs.readFile(packageArg, 'utf8'));
+    } else if (packageArg) {
+      packageNames = packageArg
+        .split(',')
+        .map(p => p.trim())
+        .filter(p => p.length > 0);
+    }
+
+    if (args.includes('--discover')) {
+      const registry = await loadRegistryConfig(config.registry);
+      const discovered = await discoverCommunityPackages({ registry });
+      config.logger!.info(`🔎 Discovered ${discovered.length} packages`);
+      packageNames.push(...discovered.map(pkg => pkg.name));
+    }
+
+    const summary = await syncCatalog(catalogPath, packageNames, {
+      config,
+      force: args.includes('--force'),
+    });
+
+    console.log('\n📊 Catalog sync:');
+    console.log(`  Added: ${summary.added.length}`);
+    console.log(`  Updated: ${summary.updated.length}`);
+    console.log(`  Unchanged: ${summary.unchanged.length}`);
+    console.log(`  Deprecated: ${summary.deprecated.length}`);
+    console.log(`  Unpublished: ${summary.unpublished.length}`);
+    console.log(`  Failed: ${summary.failed.length}`);
+    summary.failed.forEach(name => console.log(`    ❌ ${name}`));
+    console.log(`💾 Catalog saved: ${catalogPath}`);
+  } catch (error) {
+    console.error('❌ Sync failed:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,131 @@
+import { diffNodeDescriptions, formatNodeDiff, NodeDiffReport } from '../analyzers/node-diff';
+import { NodeExtractor } from '../extractors/node-extractor';
+import {
+  CompleteNodeDescription,
+  ExtractionDiagnostic,
+  ExtractorConfig,
+} from '../types/node-description';
+import { silentLogger } from '../utils/logger';
+
+/**
+ * How a package loads with one n8n version:
+ * - ok: every declared node and credential was extracted
+ * - partial: some nodes or credentials could not be extracted
+ * - failed: the package could not be installed, or none of its nodes could be extracted
+ */
+export type CompatStatus = 'ok' | 'partial' | 'failed';
+
+export interface CompatVersionResult {
+  // n8n version or dist-tag as requested
+  n8nVersion: string;
+  status: CompatStatus;
+  nodes: number;
+  credentials: number;
+  diagnostics: ExtractionDiagnostic[];
+  // Set when the extraction failed as a whole
+  error?: string;
+}
+
+export interface CompatReport {
+  package: string;
+  checkedAt: string;
+  versions: CompatVersionResult[];
+  // Description changes between consecutive versions that could be extracted, only the
+  // versions with changes are listed
+  differences: NodeDiffReport[];
+}
+
+function getCompatStatus(nodes: number, diagnostics: ExtractionDiagnostic[]): CompatStatus {
+  if (diagnostics.length === 0) return 'ok';
+  return nodes > 0 ? 'partial' : 'failed';
+}
+
+/**
+ * Extract a package once per n8n version, with n8n-workflow and n8n-core pinned to the versions
+ * of that release, and compare the descriptions of the versions that could be extracted.
+ * Versions are checked one after the other in the given order
+ */
+export async function checkN8nCompatibility(
+  packageSpec: string,
+  n8nVersions: string[],
+  config: ExtractorConfig = {}
+): Promise<CompatReport> {
+  const logger = config.logger ?? silentLogger;
+  const report: CompatReport = {
+    package: packageSpec,
+    checkedAt: new Date().toISOString(),
+    versions: [],
+    differences: [],
+  };
+  let previous: { n8nVersion: string; nodes: CompleteNodeDescription[] } | undefined;
+
+  for (const n8nVersion of n8nVersions) {
+    logger.info(`\n🧪 Checking ${packageSpec} with n8n ${n8nVersion}`);
+    const extractor = new NodeExtractor({ ...config, n8nVersion });
+
+    try {
+      const nodes = await extractor.extract(packageSpec);
+      const diagnostics = extractor.getDiagnostics();
+      report.package = extractor.getPackageName();
+      report.versions.push({
+        n8nVersion,
+        status: getCompatStatus(nodes.length, diagnostics),
+        nodes: nodes.length,
+        credentials: extractor.getCredentials().length,
+        diagnostics,
+      });
+
+      if (previous) {
+        const diff = diffNodeDescriptions(previous.nodes, nodes, {
+          from: `n8n@${previous.n8nVersion}`,
+          to: `n8n@${n8nVersion}`,
+        });
+        if (diff.changes.length > 0) {
+          report.differences.push(diff);
+        }
+      }
+      previous = { n8nVersion, nodes };
+    } catch (error) {
+      report.versions.push({
+        n8nVersion,
+        status: 'failed',
+        nodes: 0,
+        credentials: 0,
+        diagnostics: extractor.getDiagnostics(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Render a compatibility report for the terminal
+ */
+export function formatCompatReport(report: CompatReport): string {
+  const lines = [`🧪 n8n compatibility of ${report.package}`, ''];
+
+  for (const result of report.versions) {
+    const marker = result.status === 'ok' ? '✅' : result.status === 'partial' ? '⚠️ ' : '❌';
+    const summary = result.error
+      ? result.error.split('\n')[0]
+      : `${result.nodes} nodes, ${result.credentials} credentials`;
+    lines.push(`  ${marker} n8n@${result.n8nVersion}: ${summary}`);
+    // The diagnostic of a failed extraction repeats its error
+    for (const diagnostic of result.error ? [] : result.diagnostics) {
+      const target = diagnostic.declaredPath ? `${diagnostic.declaredPath} ` : '';
+      lines.push(`       ${diagnostic.code} ${target}${diagnostic.message.split('\n')[0]}`);
+    }
+  }
+
+  const extracted = report.versions.filter(result => !result.error).length;
+  if (extracted > 1 && report.differences.length === 0) {
+    lines.push('', '✅ Same descriptions with every version that could be extracted');
+  }
+  for (const diff of report.differences) {
+    lines.push('', formatNodeDiff(diff));
+  }
+
+  return lines.join('\n');
+}
@@ -1,35 +1,158 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { randomBytes } from 'crypto';
 import {
+  CompleteCredentialDescription,
   CompleteNodeDescription,
+  DependencyInstallScript,
+  DiagnosticCode,
+  ExtractionBackend,
+  ExtractionDiagnostic,
+  ExtractionEvent,
   ExtractorConfig,
   ExtractionResult,
+  IconMode,
+  RawCredentialDescription,
+  RawNodeDescription,
+  SideEffectMode,
+  Themed,
 } from '../types/node-description';
+import { createLimiter } from '../utils/concurrency';
+import {
+  DEFAULT_LOAD_MEMORY_LIMIT_MB,
+  DEFAULT_LOAD_TIMEOUT_MS,
+  LoadedClassSnapshot,
+  loadClassInWorker,
+  ModuleLoadError,
+} from '../utils/module-loader';
+import {
+  loadRegistryConfig,
+  RegistryConfig,
+  ResolvedRegistryConfig,
+} from '../utils/registry-utils';
+import { loadClassStatically } from '../utils/static-loader';
+import { buildRoutingMap } from '../analyzers/node-routing';
+import { CachedResult, ExtractionCache, getResultCacheOptions } from '../utils/cache-utils';
+import {
+  installN8nRuntime,
+  N8nRelease,
+  resolveN8nRelease,
+  resolveRuntimeVersions,
+} from '../utils/npm-utils';
+import { Logger, silentLogger } from '../utils/logger';
+import { NpmInstallOptions } from '../utils/install-utils';
 
-interface NodeModule {
-  default?: any;
-  [key: string]: any;
+const ICON_MIME_TYPES: Record<string, string> = {
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+function getIconMimeType(iconPath: string): string {
+  return ICON_MIME_TYPES[path.extname(iconPath).toLowerCase()] || 'application/octet-stream';
 }
 
-interface NodeInstance {
-  description: Partial<CompleteNodeDescription>;
-  methods?: {
-    loadOptions?: Record<string, Function>;
-    [key: string]: any;
-  };
+// Failures that depend on the machine, the registry or the load limits instead of the package,
+// results with them aren't cached so the next run tries again
+const UNCACHED_DIAGNOSTIC_CODES: DiagnosticCode[] = [
+  'load-error',
+  'timeout',
+  'install-failed',
+  'download-failed',
+];
+
+export interface DeclaredFile {
+  // Path from the n8n section of the package.json
+  declaredPath: string;
+  // First existing file among the tried paths, null when there is none
+  filePath: string | null;
+  // Tried paths, relative to the package
+  triedPaths: string[];
+}
+
+/**
+ * Get the diagnostic code, message and stack of an error thrown while loading a file
+ */
+function describeLoadError(
+  error: unknown
+): Pick<ExtractionDiagnostic, 'code' | 'message' | 'stack' | 'sideEffects'> {
+  if (error instanceof ModuleLoadError) {
+    const code: DiagnosticCode = error.reason === 'timeout' ? 'timeout' : 'load-error';
+    return {
+      code,
+      message: error.message,
+      stack: error.workerStack,
+      ...(error.sideEffects?.length && { sideEffects: error.sideEffects }),
+    };
+  }
+  if (error instanceof Error) {
+    return { code: 'load-error', message: error.message, stack: error.stack };
+  }
+  return { code: 'load-error', message: String(error) };
 }
 
 export abstract class BaseExtractor<TItems, TConfig> {
   protected tempDir: string;
   protected outputDir: string;
   protected verbose: boolean;
+  protected backend: ExtractionBackend | 'auto';
+  protected loadTimeoutMs: number;
+  protected loadMemoryLimitMb: number;
+  protected sideEffects: SideEffectMode;
+  private loadLimiter: ReturnType<typeof createLimiter>;
+  private registrySettings?: RegistryConfig;
+  protected registry?: ResolvedRegistryConfig;
   protected extractedItems!: TItems;
+  protected extractedCredentials: CompleteCredentialDescription[] = [];
+  protected iconMode: IconMode;
+  // Icon URL => icon file in the extracted package, filled while generating icon URLs
+  private iconSources: Map<string, string> = new Map();
+  protected missingIcons: string[] = [];
+  // Nodes, credentials and packages that could not be extracted
+  protected diagnostics: ExtractionDiagnostic[] = [];
+  protected cache?: ExtractionCache;
+  // Built from the whole config like the server does, so both find the same entries
+  // Options of the result cache key, the pinned n8n version is replaced by the exact release
+  private resultCacheConfig: ExtractorConfig;
+  // node_modules of the cached n8n runtime, searched after the package's own node_modules
+  private runtimeModulesPath?: string;
+  // n8n release the runtime is pinned to, its versions are resolved once
+  protected n8nVersion?: string;
+  private pinnedRelease?: Promise<N8nRelease>;
+  protected safeInstall: boolean;
+  private allowScripts?: string[];
+  // Dependencies with install scripts found by safe installs
+  protected installScripts: DependencyInstallScript[] = [];
+  // Cached results skip the install, so their install scripts are unknown
+  private usedCachedResult = false;
+  protected logger: Logger;
+  private onProgress?: (event: ExtractionEvent) => void;
 
   constructor(config?: ExtractorConfig) {
-    this.tempDir = config?.tempDir || path.join(os.tmpdir(), 'extractor-' + Date.now());
+    // Random suffix so extractors started in the same millisecond don't share a folder
+    this.tempDir =
+      config?.tempDir ||
+      path.join(os.tmpdir(), `extractor-${Date.now()}-${randomBytes(4).toString('hex')}`);
     this.outputDir = config?.outputDir || process.cwd();
     this.verbose = config?.verbose || false;
+    this.backend = config?.backend || 'require';
+    this.loadTimeoutMs = config?.loadTimeoutMs ?? DEFAULT_LOAD_TIMEOUT_MS;
+    this.loadMemoryLimitMb = config?.loadMemoryLimitMb ?? DEFAULT_LOAD_MEMORY_LIMIT_MB;
+    this.sideEffects = config?.sideEffects ?? 'off';
+    this.loadLimiter = createLimiter(config?.loadConcurrency ?? os.cpus().length);
+    this.registrySettings = config?.registry;
+    this.iconMode = config?.icons || 'reference';
+    this.cache = config?.cacheDir ? new ExtractionCache(config.cacheDir) : undefined;
+    this.resultCacheConfig = config ?? {};
+    this.n8nVersion = config?.n8nVersion;
+    this.safeInstall = config?.safeInstall ?? false;
+    this.allowScripts = config?.allowScripts;
+    this.logger = config?.logger ?? silentLogger;
+    this.onProgress = config?.onProgress;
   }
 
   /**
@@ -37,13 +160,17 @@ export abstract class BaseExtractor<TItems, TConfig> {
    */
   protected log(message: string): void {
     if (this.verbose) {
-      console.log(message);
+      this.logger.debug(message);
     }
   }
 
+  protected emitProgress(event: ExtractionEvent): void {
+    this.onProgress?.(event);
+  }
+
   async extract(config: TConfig): Promise<TItems> {
     try {
-      await this.beforeExtract(config);
+      await this.beforeExtract();
       const results = await this.extractInternal(config);
       this.extractedItems = results;
       await this.afterExtract();
@@ -56,8 +183,9 @@ export abstract class BaseExtractor<TItems, TConfig> {
 
   protected abstract extractInternal(config: TConfig): Promise<TItems>;
 
-  protected async beforeExtract(config: TConfig): Promise<void> {
-    // May need this in the future
+  protected async beforeExtract(): Promise<void> {
+    this.registry = await loadRegistryConfig(this.registrySettings);
+    this.log(`Using registry ${this.registry.registry}`);
   }
 
   protected async afterExtract(): Promise<void> {
@@ -68,27 +196,44 @@ export abstract class BaseExtractor<TItems, TConfig> {
    * Save results with metadata
    */
   async saveResults(filename: string, format: string): Promise<void> {
+    const filePath = path.join(this.outputDir, filename);
+    await fs.writeFile(filePath, JSON.stringify(this.buildResults(format), null, 2));
+    this.logger.info(`💾 Saved descriptions to ${filePath}`);
+  }
+
+  /**
+   * Get the results with metadata, as saved by saveResults
+   */
+  protected buildResults(format: string): ExtractionResult {
     const totalNodes = Array.isArray(this.extractedItems)
       ? this.extractedItems.length
       : typeof this.extractedItems === 'object' && this.extractedItems !== null
         ? Object.values(this.extractedItems).reduce(
-            (sum: number, nodes: any) => sum + (Array.isArray(nodes) ? nodes.length : 0),
+            (sum: number, nodes: unknown) => sum + (Array.isArray(nodes) ? nodes.length : 0),
             0
           )
         : 0;
 
-    const data: ExtractionResult<TItems> = {
+    const data: ExtractionResult = {
       extractedAt: new Date().toISOString(),
       totalNodes,
       format,
       nodes: (Array.isArray(this.extractedItems)
         ? this.extractedItems
-        : [this.extractedItems]) as any,
+        : [this.extractedItems]) as CompleteNodeDescription[],
+      diagnostics: this.diagnostics,
     };
 
-    const filePath = path.join(this.outputDir, filename);
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2));
-    console.log(`💾 Saved descriptions to ${filePath}`);
+    if (this.extractedCredentials.length > 0) {
+      data.credentials = this.extractedCredentials;
+    }
+    if (this.missingIcons.length > 0) {
+      data.missingIcons = this.missingIcons;
+    }
+    if (this.hasInstallScripts()) {
+      data.installScripts = this.installScripts;
+    }
+    return data;
   }
 
   /**
@@ -105,6 +250,147 @@ export abstract class BaseExtractor<TItems, TConfig> {
     }
   }
 
+  /**
+   * Get the cached result of a package version. Copied icons are written during extraction,
+   * so nothing is read from the cache in that mode
+   */
+  protected async readCachedResult(
+    packageName: string,
+    version: string
+  ): Promise<CachedResult | null> {
+    if (!this.cache || this.iconMode === 'copy') return null;
+
+    const result = await this.cache.readResult(
+      packageName,
+      version,
+      await this.resolveResultCacheOptions()
+    );
+    if (result) {
+      this.logger.info(`⚡ Using cached result for ${packageName}@${version}`);
+      this.usedCachedResult = true;
+      this.missingIcons.push(...result.missingIcons);
+      this.diagnostics.push(...result.diagnostics);
+    }
+    return result;
+  }
+
+  protected async writeCachedResult(
+    packageName: string,
+    version: string,
+    nodes: CompleteNodeDescription[],
+    credentials: CompleteCredentialDescription[]
+  ): Promise<void> {
+    if (!this.cache) return;
+
+    const missingIcons = this.missingIcons.filter(url => url.startsWith(`icons/${packageName}/`));
+    const diagnostics = this.diagnostics.filter(
+      diagnostic => diagnostic.packageName === packageName
+    );
+    if (diagnostics.some(({ code }) => UNCACHED_DIAGNOSTIC_CODES.includes(code))) {
+      this.log(`Not caching the result of ${packageName}@${version}, some files failed to load`);
+      return;
+    }
+    try {
+      await this.cache.writeResult(
+        { packageName, version, nodes, credentials, missingIcons, diagnostics },
+        await this.resolveResultCacheOptions()
+      );
+    } catch (error) {
+      this.logger.warn(
+        `⚠️  Could not cache the result of ${packageName}@${version}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Use the cached n8n-workflow and n8n-core install matching a package's peerDependencies,
+   * installing it on first use
+   */
+  protected async prepareRuntime(peerDependencies?: Record<string, string>): Promise<void> {
+    const versions =
+      (await this.getPinnedRuntimeVersions()) ??
+      (await resolveRuntimeVersions(peerDependencies, this.registry, this.logger));
+    const { modulesPath, cached } = await this.cache!.getRuntime(versions, directory => {
+      this.logger.info(`📦 Installing n8n runtime ${JSON.stringify(versions)} into the cache...`);
+      return installN8nRuntime(directory, versions, this.registry, this.getInstallOptions());
+    });
+
+    if (cached) {
+      this.logger.info(`⚡ Using cached n8n runtime ${JSON.stringify(versions)}`);
+    }
+    this.runtimeModulesPath = modulesPath;
+  }
+
+  /**
+   * Get the npm install settings of the safe install mode
+   */
+  protected getInstallOptions(): NpmInstallOptions {
+    return {
+      safe: this.safeInstall,
+      allowScripts: this.allowScripts,
+      npmCacheDir: this.cache?.getNpmCacheDir(),
+    };
+  }
+
+  /**
+   * Check whether the install scripts are complete: only safe installs record them, and
+   * packages served from the cache weren't installed at all
+   */
+  protected hasInstallScripts(): boolean {
+    return this.safeInstall && !this.usedCachedResult;
+  }
+
+  /**
+   * Keep the dependencies with install scripts found by a safe install, and warn about the
+   * ones whose scripts were skipped since the dependency may not work without them
+   */
+  protected recordInstallScripts(installScripts: DependencyInstallScript[]): void {
+    for (const script of installScripts) {
+      const known = this.installScripts.some(
+        ({ name, version }) => name === script.name && version === script.version
+      );
+      if (known) continue;
+
+      this.installScripts.push(script);
+      if (!script.ran) {
+        this.logger.warn(
+          `🛡️  Skipped install scripts of ${script.name}@${script.version}: ${Object.keys(script.scripts).join(', ')}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the n8n-workflow and n8n-core versions of the pinned n8n release, undefined when the
+   * runtime isn't pinned
+   */
+  protected async getPinnedRuntimeVersions(): Promise<Record<string, string> | undefined> {
+    return (await this.getPinnedRelease())?.runtimeVersions;
+  }
+
+  /**
+   * Get the exact n8n release the runtime is pinned to, undefined when it isn't pinned
+   */
+  private async getPinnedRelease(): Promise<N8nRelease | undefined> {
+    if (!this.n8nVersion) {
+      return undefined;
+    }
+    if (!this.pinnedRelease) {
+      this.pinnedRelease = resolveN8nRelease(this.n8nVersion, this.registry);
+    }
+    return this.pinnedRelease;
+  }
+
+  /**
+   * Get the options of the result cache key. A pinned dist-tag like `latest` is keyed by the
+   * release it currently points to, not by the tag
+   */
+  private async resolveResultCacheOptions(): Promise<object> {
+    const release = await this.getPinnedRelease();
+    return getResultCacheOptions({ ...this.resultCacheConfig, n8nVersion: release?.version });
+  }
+
   /**
    * Get extracted items
    */
@@ -113,91 +399,166 @@ export abstract class BaseExtractor<TItems, TConfig> {
   }
 
   /**
-   * Resolve node class from module exports
+   * Get extracted credentials
    */
-  protected resolveNodeClass(nodeModule: any): any {
-    if (nodeModule.default && typeof nodeModule.default === 'function') {
-      return nodeModule.default;
-    }
+  getCredentials(): CompleteCredentialDescription[] {
+    return this.extractedCredentials;
+  }
 
-    // Try any function export
-    for (const [key, value] of Object.entries(nodeModule)) {
-      if (typeof value === 'function' && key !== 'default') {
-        return value;
-      }
+  /**
+   * Get the nodes, credentials and packages that could not be extracted
+   */
+  getDiagnostics(): ExtractionDiagnostic[] {
+    return this.diagnostics;
+  }
+
+  protected addDiagnostic(diagnostic: ExtractionDiagnostic): void {
+    this.diagnostics.push(diagnostic);
+    this.emitProgress({
+      type: diagnostic.kind ? 'node-failed' : 'package-failed',
+      packageName: diagnostic.packageName,
+      diagnostic,
+    });
+  }
+
+  /**
+   * Run a package level step, recording a diagnostic before rethrowing when it fails
+   */
+  protected async withDiagnostic<T>(
+    packageName: string,
+    code: DiagnosticCode,
+    step: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await step();
+    } catch (error) {
+      this.addDiagnostic({
+        code,
+        packageName,
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      throw error;
     }
+  }
+
+  /**
+   * Record a declared node or credential without a file
+   */
+  protected reportMissingFile(
+    packageName: string,
+    kind: 'node' | 'credential',
+    declared: DeclaredFile
+  ): void {
+    this.addDiagnostic({
+      code: 'file-not-found',
+      packageName,
+      kind,
+      declaredPath: declared.declaredPath,
+      triedPaths: declared.triedPaths,
+      message: `No file found for ${declared.declaredPath}`,
+    });
+  }
+
+  /**
+   * Describe the declared path of a file for a diagnostic, the file itself when it wasn't declared
+   */
+  private describeFile(
+    packagePath: string,
+    filePath: string,
+    declared?: DeclaredFile
+  ): Pick<ExtractionDiagnostic, 'declaredPath' | 'triedPaths'> {
+    if (!declared) return { declaredPath: path.relative(packagePath, filePath) };
+    return { declaredPath: declared.declaredPath, triedPaths: declared.triedPaths };
+  }
+
+  /**
+   * Find the file for a declared node or credential path, trying the usual build output folders
+   */
+  protected async resolveDeclaredPath(
+    packagePath: string,
+    declaredPath: string
+  ): Promise<DeclaredFile> {
+    const variations = [
+      ...new Set([
+        declaredPath,
+        declaredPath.replace('.ts', '.js'),
+        declaredPath.replace('src/', 'dist/'),
+        declaredPath.replace('src/', 'lib/'),
+      ]),
+    ];
+
+    // Check all variations in parallel
+    const checkResults = await Promise.all(
+      variations.map(async variation => {
+        const fullPath = path.resolve(packagePath, variation);
+        try {
+          await fs.access(fullPath);
+          return { exists: true, path: fullPath };
+        } catch {
+          return { exists: false, path: fullPath };
+        }
+      })
+    );
 
-    return null;
+    // Use the first valid path
+    return {
+      declaredPath,
+      filePath: checkResults.find(result => result.exists)?.path ?? null,
+      triedPaths: variations,
+    };
   }
 
   /**
-   * Process node icons and return icon information
+   * Process node icons, turning file icons into icon URLs and keeping light/dark variants
    */
   protected processNodeIcons(
-    description: any,
+    description: { icon?: unknown; iconUrl?: unknown },
     packageName: string,
     filePath: string,
     packagePath: string
-  ): { icon?: string; iconUrl?: string; iconLightUrl?: string; iconDarkUrl?: string } {
-    const result: { icon?: string; iconUrl?: string; iconLightUrl?: string; iconDarkUrl?: string } =
-      {};
-
-    if (description.icon) {
-      if (typeof description.icon === 'string') {
-        if (description.icon.startsWith('fa:')) {
-          result.icon = description.icon;
-        } else {
-          const iconPath = description.icon.startsWith('file:')
-            ? description.icon.replace('file:', '')
-            : description.icon;
-          result.iconUrl = this.generateIconUrl(iconPath, packageName, filePath, packagePath);
-        }
-      } else if (
-        typeof description.icon === 'object' &&
-        (description.icon.light || description.icon.dark)
-      ) {
-        if (description.icon.light) {
-          const iconLightPath = description.icon.light.startsWith('file:')
-            ? description.icon.light.replace('file:', '')
-            : description.icon.light;
-          result.iconLightUrl = this.generateIconUrl(
-            iconLightPath,
-            packageName,
-            filePath,
-            packagePath
-          );
-        }
-        if (description.icon.dark) {
-          const iconDarkPath = description.icon.dark.startsWith('file:')
-            ? description.icon.dark.replace('file:', '')
-            : description.icon.dark;
-          result.iconDarkUrl = this.generateIconUrl(
-            iconDarkPath,
-            packageName,
-            filePath,
-            packagePath
-          );
-          // If both light and dark are present, prefer dark for iconUrl
-          result.iconUrl = result.iconDarkUrl;
-        } else if (result.iconLightUrl) {
-          // If only light is present, use it for iconUrl
-          result.iconUrl = result.iconLightUrl;
-        }
+  ): { icon?: string; iconUrl?: Themed<string> } {
+    const result: { icon?: string; iconUrl?: Themed<string> } = {};
+    const toIconUrl = (iconPath: string) =>
+      this.generateIconUrl(iconPath, packageName, filePath, packagePath);
+
+    const { icon, iconUrl } = description;
+
+    if (typeof icon === 'string') {
+      if (icon.startsWith('fa:') || icon.startsWith('node:')) {
+        result.icon = icon;
+      } else {
+        result.iconUrl = toIconUrl(icon);
       }
+    } else if (icon && typeof icon === 'object') {
+      const themed = icon as { light?: unknown; dark?: unknown };
+      const light = typeof themed.light === 'string' ? toIconUrl(themed.light) : undefined;
+      const dark = typeof themed.dark === 'string' ? toIconUrl(themed.dark) : undefined;
+      // n8n needs both variants for a themed icon, otherwise use the one that is there
+      result.iconUrl = light && dark ? { light, dark } : light || dark;
     }
 
-    if (description.iconUrl) {
-      result.iconUrl = this.generateIconUrl(
-        description.iconUrl,
-        packageName,
-        filePath,
-        packagePath
-      );
+    if (typeof iconUrl === 'string') {
+      result.iconUrl = toIconUrl(iconUrl);
+    } else if (iconUrl && typeof iconUrl === 'object') {
+      const { light, dark } = iconUrl as { light?: unknown; dark?: unknown };
+      if (typeof light === 'string' && typeof dark === 'string') {
+        result.iconUrl = { light: toIconUrl(light), dark: toIconUrl(dark) };
+      }
     }
 
     return result;
   }
 
+  /**
+   * Format a plain or themed icon URL for the summary output
+   */
+  protected formatIconUrl(iconUrl: Themed<string>): string {
+    return typeof iconUrl === 'string'
+      ? iconUrl
+      : `${iconUrl.light} (light), ${iconUrl.dark} (dark)`;
+  }
+
   /**
    * Generate node name from original name and package name
    */
@@ -219,7 +580,7 @@ export abstract class BaseExtractor<TItems, TConfig> {
     const nodeDir = path.dirname(nodePath);
 
     // Remove any leading "file:" prefix
-    let normalizedIconPath = iconPath.startsWith('file:')
+    const normalizedIconPath = iconPath.startsWith('file:')
       ? iconPath.replace(/^file:/, '')
       : iconPath;
 
@@ -239,128 +600,436 @@ export abstract class BaseExtractor<TItems, TConfig> {
       resolvedPath = path.relative(packagePath, absolutePath).replace(/\\/g, '/');
     }
 
-    return `icons/${cleanPackageName}/${resolvedPath}`;
+    const iconUrl = `icons/${cleanPackageName}/${resolvedPath}`;
+    this.iconSources.set(iconUrl, path.join(packagePath, resolvedPath));
+    return iconUrl;
+  }
+
+  /**
+   * Copy the icons of the given items (including light and dark variants) to the output directory
+   * using the generated icon URL as relative path, or inline the icons as data URIs.
+   * Must run before cleanup() removes the extracted package.
+   */
+  protected async exportIcons(
+    items: Array<CompleteNodeDescription | CompleteCredentialDescription>
+  ): Promise<void> {
+    if (this.iconMode === 'reference') {
+      return;
+    }
+
+    // Collected first so each missing icon is only reported once
+    const missing = new Set<string>();
+    const readIcon = async (iconUrl: string): Promise<Buffer | null> => {
+      const source = this.iconSources.get(iconUrl);
+      try {
+        return source ? await fs.readFile(source) : null;
+      } catch {
+        return null;
+      }
+    };
+
+    if (this.iconMode === 'copy') {
+      const iconUrls = new Set(
+        items
+          .flatMap(item =>
+            typeof item.iconUrl === 'string'
+              ? [item.iconUrl]
+              : item.iconUrl
+                ? [item.iconUrl.light, item.iconUrl.dark]
+                : []
+          )
+          .filter(iconUrl => this.iconSources.has(iconUrl))
+      );
+      for (const iconUrl of iconUrls) {
+        const content = await readIcon(iconUrl);
+        if (!content) {
+          missing.add(iconUrl);
+          continue;
+        }
+        const destination = path.join(this.outputDir, iconUrl);
+        await fs.mkdir(path.dirname(destination), { recursive: true });
+        await fs.writeFile(destination, content);
+      }
+      this.log(`🖼️  Copied ${iconUrls.size - missing.size} icons to ${this.outputDir}`);
+    } else {
+      const inlineIcon = async (iconUrl: string): Promise<string> => {
+        const content = await readIcon(iconUrl);
+        if (!content) {
+          missing.add(iconUrl);
+          return iconUrl;
+        }
+        return `data:${getIconMimeType(iconUrl)};base64,${content.toString('base64')}`;
+      };
+
+      for (const item of items) {
+        if (typeof item.iconUrl === 'string') {
+          item.iconUrl = await inlineIcon(item.iconUrl);
+        } else if (item.iconUrl) {
+          item.iconUrl = {
+            light: await inlineIcon(item.iconUrl.light),
+            dark: await inlineIcon(item.iconUrl.dark),
+          };
+        }
+      }
+    }
+
+    for (const iconUrl of missing) {
+      this.logger.warn(`⚠️  Icon not found: ${iconUrl}`);
+    }
+    this.missingIcons.push(...missing);
+  }
+
+  /**
+   * Load a node or credential file with the configured backend and snapshot its class instance
+   */
+  protected async loadClassSnapshot(
+    filePath: string,
+    nodeModulesPath: string
+  ): Promise<LoadedClassSnapshot | null> {
+    if (this.backend === 'static') {
+      return this.loadClassFromSource(filePath);
+    }
+
+    try {
+      const snapshot = await this.loadClassInIsolation(filePath, nodeModulesPath);
+      if (snapshot || this.backend !== 'auto') {
+        return snapshot;
+      }
+    } catch (error) {
+      if (this.backend !== 'auto') {
+        throw error;
+      }
+    }
+
+    this.logger.warn(`↩️  Falling back to static extraction for ${path.basename(filePath)}`);
+    return this.loadClassFromSource(filePath);
   }
 
   /**
-   * Safely load a node module with timeout
+   * Read a node or credential class from its source without running it
    */
-  protected async loadNodeModule(filePath: string, timeoutMs: number = 10000): Promise<NodeModule> {
-    return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        reject(new Error(`Module load timeout: ${filePath}`));
-      }, timeoutMs);
+  protected async loadClassFromSource(filePath: string): Promise<LoadedClassSnapshot | null> {
+    const snapshot = await loadClassStatically(filePath);
+    if (!snapshot) {
+      this.log(`❌ No class found in ${path.basename(filePath)}`);
+    } else {
+      this.log(`📝 Parsed ${path.basename(filePath)} statically`);
+    }
+    return snapshot;
+  }
 
+  /**
+   * Load a node or credential file in an isolated worker and snapshot its class instance
+   */
+  protected async loadClassInIsolation(
+    filePath: string,
+    nodeModulesPath: string
+  ): Promise<LoadedClassSnapshot | null> {
+    return this.loadLimiter(async () => {
+      const startedAt = Date.now();
       try {
-        const resolvedPath = require.resolve(filePath);
-        delete require.cache[resolvedPath];
-        const module = require(filePath);
-        clearTimeout(timeoutId);
-        resolve(module);
+        const snapshot = await loadClassInWorker(filePath, {
+          modulePaths: [
+            nodeModulesPath,
+            ...(this.runtimeModulesPath ? [this.runtimeModulesPath] : []),
+          ],
+          timeoutMs: this.loadTimeoutMs,
+          memoryLimitMb: this.loadMemoryLimitMb,
+          sideEffects: this.sideEffects,
+        });
+
+        if (!snapshot) {
+          this.log(`❌ No valid class found in ${path.basename(filePath)}`);
+        } else {
+          this.log(`⚡ Loaded ${path.basename(filePath)} in ${Date.now() - startedAt}ms`);
+        }
+        if (snapshot?.sideEffects?.length) {
+          const verb = this.sideEffects === 'block' ? 'blocked' : 'recorded';
+          this.logger.warn(
+            `🔎 ${snapshot.sideEffects.length} side effects ${verb} while loading ${path.basename(filePath)}`
+          );
+        }
+        return snapshot;
       } catch (error) {
-        clearTimeout(timeoutId);
-        reject(error);
+        if (error instanceof ModuleLoadError) {
+          const icon = error.reason === 'timeout' ? '⏱️' : error.reason === 'error' ? '❌' : '💥';
+          this.logger.error(
+            `${icon} Loading ${path.basename(filePath)} failed (${error.reason}) after ${Date.now() - startedAt}ms`
+          );
+        }
+        throw error;
       }
     });
   }
 
   /**
-   * Extract complete node description from a file
+   * Extract complete node descriptions from a file. VersionedNodeType nodes give one description
+   * per implementation, like n8n's loader does.
    */
   protected async extractCompleteNode(
     filePath: string,
     packageName: string,
     packagePath: string,
-    nodeModulesPath: string
-  ): Promise<CompleteNodeDescription | null> {
+    nodeModulesPath: string,
+    declared?: DeclaredFile
+  ): Promise<CompleteNodeDescription[] | null> {
+    const file = this.describeFile(packagePath, filePath, declared);
     try {
       this.log(`[${packageName}] 🔧 Extracting description from: ${path.basename(filePath)}`);
 
-      // Setup module resolution
-      const originalPaths = module.paths.slice();
+      const snapshot = await this.loadClassSnapshot(filePath, nodeModulesPath);
+      if (!snapshot) {
+        this.addDiagnostic({
+          code: 'no-node-class',
+          packageName,
+          kind: 'node',
+          ...file,
+          message: `No node class found in ${path.basename(filePath)}`,
+        });
+        return null;
+      }
+
+      const description = snapshot.properties.description as RawNodeDescription | undefined;
 
-      if (!module.paths.includes(nodeModulesPath)) {
-        module.paths.unshift(nodeModulesPath);
+      if (!description || !description.name) {
+        this.log(`❌ No valid description in ${path.basename(filePath)}`);
+        this.addDiagnostic({
+          code: 'no-description',
+          packageName,
+          kind: 'node',
+          ...file,
+          message: `${snapshot.className} has no description with a name`,
+        });
+        return null;
       }
 
-      try {
-        // Load the module with timeout safety
-        const nodeModule = await this.loadNodeModule(filePath);
+      if (snapshot.nodeVersions?.length) {
+        this.logger.info(
+          `✅ Extracted ${snapshot.nodeVersions.length} versions for: ${description.displayName}`
+        );
+
+        const nodes = snapshot.nodeVersions.map(({ versions, snapshot: implementation }) => {
+          const completeDescription = this.buildNodeDescription(
+            // Implementations usually extend the base description already, but not always
+            {
+              ...description,
+              ...(implementation.properties.description as RawNodeDescription | undefined),
+            },
+            implementation,
+            packageName,
+            filePath,
+            packagePath
+          );
+          if (description.defaultVersion !== undefined) {
+            completeDescription.defaultVersion = description.defaultVersion;
+          }
+          completeDescription.__implementation = {
+            className: implementation.className,
+            versions,
+          };
+          // Recorded for the file as a whole, the implementations are created by its constructor
+          if (snapshot.sideEffects) {
+            completeDescription.__sideEffects = snapshot.sideEffects;
+          }
+          return completeDescription;
+        });
+        this.reportExtractedNodes(packageName, nodes);
+        return nodes;
+      }
 
-        // Use the extracted method to get the node class
-        const NodeClass = this.resolveNodeClass(nodeModule);
+      this.logger.info(`✅ Extracted description for: ${description.displayName}`);
 
-        if (!NodeClass || typeof NodeClass !== 'function') {
-          this.log(`❌ No valid NodeClass found in ${path.basename(filePath)}`);
-          return null;
-        }
+      const nodes = [
+        this.buildNodeDescription(description, snapshot, packageName, filePath, packagePath),
+      ];
+      this.reportExtractedNodes(packageName, nodes);
+      return nodes;
+    } catch (error) {
+      // Always log extraction errors (not just in verbose mode) for debugging
+      this.logger.error(
+        `❌ Extraction error for ${path.basename(filePath)}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      if (this.verbose && error instanceof Error) {
+        const stack = error instanceof ModuleLoadError ? error.workerStack : error.stack;
+        if (stack) this.logger.error('Stack trace:', stack);
+      }
+      this.addDiagnostic({ packageName, kind: 'node', ...file, ...describeLoadError(error) });
+      return null;
+    }
+  }
 
-        // Create instance and get description
-        const nodeInstance = new NodeClass();
-        const description = nodeInstance.description;
+  private reportExtractedNodes(packageName: string, nodes: CompleteNodeDescription[]): void {
+    for (const node of nodes) {
+      this.emitProgress({
+        type: 'node-extracted',
+        packageName,
+        node: node.name,
+        displayName: node.displayName,
+        description: node,
+      });
+    }
+  }
 
-        if (!description || !description.name) {
-          this.log(`❌ No valid description in ${path.basename(filePath)}`);
-          return null;
-        }
+  /**
+   * Build the complete description output from a raw node description
+   */
+  protected buildNodeDescription(
+    description: RawNodeDescription,
+    snapshot: LoadedClassSnapshot,
+    packageName: string,
+    filePath: string,
+    packagePath: string
+  ): CompleteNodeDescription {
+    // Return the COMPLETE description object, fields n8n requires are passed through unchecked
+    const completeDescription = {
+      ...description,
+      displayName: description.displayName,
+      name: this.generateNodeName(description.name!, packageName),
+      group: description.group || [],
+      version: description.version,
+      description: description.description || '',
+      defaults: description.defaults || {},
+      inputs: description.inputs || ['main'],
+      outputs: description.outputs || ['main'],
+      properties: description.properties || [],
+    } as CompleteNodeDescription;
 
-        console.log(`✅ Extracted description for: ${description.displayName}`);
-
-        // Return the COMPLETE description object
-        const completeDescription: CompleteNodeDescription = {
-          ...description,
-          displayName: description.displayName,
-          name: this.generateNodeName(description.name, packageName),
-          group: description.group || [],
-          version: description.version,
-          description: description.description || '',
-          defaults: description.defaults || {},
-          inputs: description.inputs || ['main'],
-          outputs: description.outputs || ['main'],
-          properties: description.properties || [],
-        };
-
-        // Add load options methods if available
-        if (nodeInstance.methods?.loadOptions) {
-          completeDescription.__loadOptionsMethods = Object.keys(nodeInstance.methods.loadOptions);
-        }
+    // Add load options methods if available
+    if (snapshot.methods?.loadOptions) {
+      completeDescription.__loadOptionsMethods = snapshot.methods.loadOptions;
+    }
+
+    if (snapshot.backend === 'static') {
+      completeDescription.__extractionBackend = 'static';
+    }
 
-        // Process icons using the extracted method
-        const iconInfo = this.processNodeIcons(description, packageName, filePath, packagePath);
+    if (snapshot.sideEffects) {
+      completeDescription.__sideEffects = snapshot.sideEffects;
+    }
 
-        if (iconInfo.icon) {
-          completeDescription.icon = iconInfo.icon;
-          // If we're using a Font Awesome icon, remove any iconUrl
-          if (iconInfo.icon.startsWith('fa:')) {
-            delete completeDescription.iconUrl;
-          }
-        }
+    const routing = buildRoutingMap(completeDescription);
+    if (routing) {
+      completeDescription.__routing = routing;
+    }
 
-        if (iconInfo.iconUrl) {
-          completeDescription.iconUrl = iconInfo.iconUrl;
-        }
+    // Replace the raw icon references (file: paths) with the processed ones
+    delete completeDescription.icon;
+    delete completeDescription.iconUrl;
+    const iconInfo = this.processNodeIcons(description, packageName, filePath, packagePath);
 
-        if (iconInfo.iconLightUrl) {
-          completeDescription.iconUrl = iconInfo.iconLightUrl;
-        }
-        if (iconInfo.iconDarkUrl) {
-          completeDescription.iconUrl = iconInfo.iconDarkUrl;
-        }
+    if (iconInfo.icon) {
+      completeDescription.icon = iconInfo.icon;
+    }
+    if (iconInfo.iconUrl) {
+      completeDescription.iconUrl = iconInfo.iconUrl;
+    }
+
+    return completeDescription;
+  }
+
+  /**
+   * Extract credential type description from a file, in the shape of n8n's /types/credentials.json
+   */
+  protected async extractCompleteCredential(
+    filePath: string,
+    packageName: string,
+    packagePath: string,
+    nodeModulesPath: string,
+    declared?: DeclaredFile
+  ): Promise<CompleteCredentialDescription | null> {
+    const file = this.describeFile(packagePath, filePath, declared);
+    try {
+      this.log(`[${packageName}] 🔑 Extracting credential from: ${path.basename(filePath)}`);
+
+      const snapshot = await this.loadClassSnapshot(filePath, nodeModulesPath);
+      const credential = snapshot?.properties as RawCredentialDescription | undefined;
+
+      if (!snapshot || !credential || !credential.name) {
+        this.log(`❌ No valid credential type in ${path.basename(filePath)}`);
+        this.addDiagnostic({
+          code: snapshot ? 'no-description' : 'no-node-class',
+          packageName,
+          kind: 'credential',
+          ...file,
+          message: snapshot
+            ? `${snapshot.className} has no credential name`
+            : `No credential class found in ${path.basename(filePath)}`,
+        });
+        return null;
+      }
+
+      this.logger.info(`✅ Extracted credential: ${credential.displayName || credential.name}`);
+
+      const completeCredential: CompleteCredentialDescription = {
+        name: credential.name,
+        displayName: credential.displayName || credential.name,
+        properties: credential.properties || [],
+      };
 
-        return completeDescription;
-      } finally {
-        // Restore paths
-        module.paths.splice(0, module.paths.length, ...originalPaths);
+      if (credential.extends) completeCredential.extends = credential.extends;
+      if (credential.documentationUrl) {
+        completeCredential.documentationUrl = credential.documentationUrl;
       }
+      // Function based authenticate isn't serialized, n8n omits it from credentials.json too
+      if (credential.authenticate && typeof credential.authenticate === 'object') {
+        completeCredential.authenticate = credential.authenticate;
+      }
+      if (credential.test) completeCredential.test = credential.test;
+      if (credential.genericAuth !== undefined) {
+        completeCredential.genericAuth = credential.genericAuth;
+      }
+      if (snapshot.sideEffects) completeCredential.__sideEffects = snapshot.sideEffects;
+
+      const iconInfo = this.processNodeIcons(credential, packageName, filePath, packagePath);
+      if (iconInfo.icon) {
+        completeCredential.icon = iconInfo.icon;
+      }
+      if (iconInfo.iconUrl) {
+        completeCredential.iconUrl = iconInfo.iconUrl;
+      }
+      if (credential.iconColor) {
+        completeCredential.iconColor = credential.iconColor;
+      }
+
+      this.emitProgress({
+        type: 'credential-extracted',
+        packageName,
+        credential: completeCredential.name,
+        description: completeCredential,
+      });
+      return completeCredential;
     } catch (error) {
-      // Always log extraction errors (not just in verbose mode) for debugging
-      console.error(
-        `❌ Extraction error for ${path.basename(filePath)}: ${error instanceof Error ? error.message : String(error)}`
+      this.logger.error(
+        `❌ Credential extraction error for ${path.basename(filePath)}: ${error instanceof Error ? error.message : String(error)}`
       );
-      if (this.verbose && error instanceof Error && error.stack) {
-        console.error('Stack trace:', error.stack);
+      if (this.verbose && error instanceof Error) {
+        const stack = error instanceof ModuleLoadError ? error.workerStack : error.stack;
+        if (stack) this.logger.error('Stack trace:', stack);
       }
+      this.addDiagnostic({ packageName, kind: 'credential', ...file, ...describeLoadError(error) });
       return null;
     }
   }
+
+  /**
+   * Fill in supportedNodes for each credential from the nodes that reference it
+   */
+  protected linkSupportedNodes(
+    credentials: CompleteCredentialDescription[],
+    nodes: CompleteNodeDescription[]
+  ): void {
+    for (const credential of credentials) {
+      // Versioned nodes have several descriptions with the same name
+      const supportedNodes = [
+        ...new Set(
+          nodes
+            .filter(node => node.credentials?.some(c => c.name === credential.name))
+            .map(node => node.name)
+        ),
+      ];
+      if (supportedNodes.length > 0) {
+        credential.supportedNodes = supportedNodes;
+      }
+    }
+  }
 }
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { CompleteNodeDescription, ExtractorConfig } from '../types/node-description';
+import { ExtractionCache, getResultCacheOptions } from '../utils/cache-utils';
+import { MultipleNodeExtractor } from './multiple-node-extractor';
+
+const NODE = {
+  displayName: 'Foo',
+  name: 'foo',
+  group: ['transform'],
+  version: 1,
+  description: 'Foo node',
+  defaults: { name: 'Foo' },
+  inputs: ['main'],
+  outputs: ['main'],
+  properties: [],
+  packageName: 'n8n-nodes-foo',
+} as CompleteNodeDescription;
+
+describe('MultipleNodeExtractor with duplicate packages', () => {
+  let server: http.Server;
+  let directory: string;
+  let config: ExtractorConfig;
+
+  before(async () => {
+    // Registry stub resolving 2.0.0 to itself and any other spec to 1.0.0, which is cached
+    server = http.createServer((req, res) => {
+      const version = req.url?.endsWith('/2.0.0') ? '2.0.0' : '1.0.0';
+      res.setHeader('content-type', 'application/json');
+      res.end(
+        JSON.stringify({
+          name: 'n8n-nodes-foo',
+          version,
+          dist: { tarball: `http://127.0.0.1/n8n-nodes-foo-${version}.tgz` },
+        })
+      );
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'multiple-extractor-test-'));
+    config = {
+      cacheDir: path.join(directory, 'cache'),
+      registry: { registry: `http://127.0.0.1:${port}/` },
+    };
+    await new ExtractionCache(config.cacheDir).writeResult(
+      {
+        packageName: 'n8n-nodes-foo',
+        version: '1.0.0',
+        nodes: [NODE],
+        credentials: [],
+        missingIcons: [],
+        diagnostics: [],
+      },
+      getResultCacheOptions(config)
+    );
+
+    for (const folder of ['a', 'b']) {
+      await fs.mkdir(path.join(directory, folder));
+      await fs.writeFile(
+        path.join(directory, folder, 'package.json'),
+        JSON.stringify({ name: 'n8n-nodes-bar', version: '1.0.0', n8n: { nodes: [] } })
+      );
+    }
+  });
+
+  after(async () => {
+    server.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('extracts specs resolving to the same version once', async () => {
+    const extractor = new MultipleNodeExtractor(config);
+    const results = await extractor.extract([
+      'n8n-nodes-foo@1.0.0',
+      'n8n-nodes-foo@1.0.0',
+      'n8n-nodes-foo@latest',
+    ]);
+
+    assert.deepEqual(Object.keys(results), ['n8n-nodes-foo']);
+    assert.equal(extractor.getPackageResults()['n8n-nodes-foo'].status, 'ok');
+  });
+
+  it('fails a package requested in two versions', async () => {
+    const extractor = new MultipleNodeExtractor(config);
+    await extractor.extract(['n8n-nodes-foo@1.0.0', 'n8n-nodes-foo@2.0.0']);
+
+    const { status, error } = extractor.getPackageResults()['n8n-nodes-foo'];
+    assert.equal(status, 'failed');
+    assert.equal(error?.stage, 'resolve');
+    assert.match(error?.message ?? '', /several versions \(1\.0\.0, 2\.0\.0\)/);
+  });
+
+  it('fails local packages with the same name without failing the others', async () => {
+    const extractor = new MultipleNodeExtractor(config);
+    await extractor.extract([
+      path.join(directory, 'a'),
+      path.join(directory, 'b'),
+      'n8n-nodes-foo@1.0.0',
+    ]);
+
+    const packageResults = extractor.getPackageResults();
+    assert.equal(packageResults['n8n-nodes-bar'].status, 'failed');
+    assert.equal(packageResults['n8n-nodes-foo'].status, 'ok');
+  });
+});
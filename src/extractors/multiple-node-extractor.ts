@@ -1,96 +1,401 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { execSync } from 'child_process';
 import { BaseExtractor } from './base-extractor';
-import { CompleteNodeDescription, ExtractorConfig } from '../types/node-description';
-import { getN8nPackageConfig, parsePackageName } from '../utils/npm-utils';
+import {
+  CompleteCredentialDescription,
+  CompleteNodeDescription,
+  DiagnosticCode,
+  DocumentFormat,
+  ExtractorConfig,
+  MultipleExtractionResult,
+  PackageExtractionError,
+  PackageExtractionResult,
+} from '../types/node-description';
+import {
+  getN8nPackageConfig,
+  isLocalPackageSpec,
+  parsePackageName,
+  readLocalPackageJson,
+  resolveLocalPackagePath,
+} from '../utils/npm-utils';
+import { writeNpmrc } from '../utils/registry-utils';
+import { runNpmInstall } from '../utils/install-utils';
+import { getPackageInfo } from '../utils/download-utils';
+import { createLimiter } from '../utils/concurrency';
+import { MarkdownPackage, renderMarkdownIndex } from '../generators/markdown';
+import { DOCUMENT_EXTENSIONS, renderDocument, renderNodeOpenApiDocuments } from '../generators';
+
+const DEFAULT_INSTALL_CONCURRENCY = 4;
+
+interface ResolvedPackage {
+  name: string;
+  version: string;
+  // Registry package resolved to an exact version
+  cacheable: boolean;
+}
+
+/**
+ * Get the name and version of a package argument that could not be resolved
+ */
+function getRequestedPackage(spec: string): { name: string; version?: string } {
+  return isLocalPackageSpec(spec) ? { name: spec } : parsePackageName(spec);
+}
+
+/**
+ * Get the diagnostic code for a package that failed at one of the extraction stages
+ */
+function getPackageDiagnosticCode(
+  stage: PackageExtractionError['stage'],
+  error: unknown
+): DiagnosticCode {
+  if (stage === 'install') return 'install-failed';
+  if ((error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT') return 'file-not-found';
+  return stage === 'resolve' ? 'download-failed' : 'load-error';
+}
+
+/**
+ * Get the last lines of the output of a failed command, e.g. npm install
+ */
+function getCommandOutput(error: unknown): string | undefined {
+  const { stderr, stdout } = (error ?? {}) as { stderr?: unknown; stdout?: unknown };
+  const output = String(stderr ?? '').trim() || String(stdout ?? '').trim();
+  return output ? output.split('\n').slice(-20).join('\n') : undefined;
+}
 
 export class MultipleNodeExtractor extends BaseExtractor<
   Record<string, CompleteNodeDescription[]>,
   string[]
 > {
   private packagePaths: Map<string, string> = new Map();
+  private packageCredentials: Record<string, CompleteCredentialDescription[]> = {};
+  // Status of every requested package, including failed ones
+  private packageResults: Record<string, PackageExtractionResult> = {};
+  private installConcurrency: number;
 
   constructor(config?: ExtractorConfig) {
     super(config);
+    this.installConcurrency = config?.installConcurrency ?? DEFAULT_INSTALL_CONCURRENCY;
   }
 
   /**
-   * Extract complete node descriptions from multiple community packages
+   * Extract complete node descriptions from multiple community packages. A package that can't
+   * be resolved, installed or extracted is marked as failed without failing the others
    */
   protected async extractInternal(
     config: string[]
   ): Promise<Record<string, CompleteNodeDescription[]>> {
-    const packageNames = config;
-    console.log(
+    // The same spec given twice is extracted once
+    const packageNames = [...new Set(config)];
+    this.logger.info(
       `📦 Extracting node descriptions from ${packageNames.length} packages: ${packageNames.join(', ')}`
     );
+    this.packageResults = {};
 
     try {
       await fs.mkdir(this.tempDir, { recursive: true });
 
-      const projectPath = path.join(this.tempDir, 'project');
-      await fs.mkdir(projectPath, { recursive: true });
-
-      // Create package.json with all dependencies
-      const packageJson: any = {
-        name: 'n8n-multi-extractor',
-        version: '1.0.0',
-        dependencies: {
-          'n8n-workflow': 'latest',
-          'n8n-core': 'latest',
-        },
-      };
+      // Local tarballs and directories as file: specs, registry packages resolved to a version
+      // when caching so finished results can be reused
+      const resolved = await Promise.all(
+        packageNames.map(spec =>
+          this.resolvePackageSpec(spec).then(
+            pkg => {
+              this.emitProgress({
+                type: 'package-resolved',
+                packageName: pkg.name,
+                version: pkg.version,
+              });
+              return pkg;
+            },
+            error => {
+              const { name, version } = getRequestedPackage(spec);
+              this.setFailed(name, version, 'resolve', error);
+              return null;
+            }
+          )
+        )
+      );
+      const requestedNames = [
+        ...new Set(
+          resolved.map((pkg, index) => pkg?.name ?? getRequestedPackage(packageNames[index]).name)
+        ),
+      ];
+      const packages = await this.dropDuplicatePackages(resolved);
+      const results: Record<string, CompleteNodeDescription[]> = {};
+      const credentialResults: Record<string, CompleteCredentialDescription[]> = {};
 
-      // Add all packages as dependencies
-      for (const packageName of packageNames) {
-        const { name, version } = parsePackageName(packageName);
-        packageJson.dependencies[name] = version;
+      const pending: ResolvedPackage[] = [];
+      for (const pkg of packages) {
+        const cached = pkg.cacheable && (await this.readCachedResult(pkg.name, pkg.version));
+        if (cached) {
+          results[pkg.name] = cached.nodes;
+          credentialResults[pkg.name] = cached.credentials;
+          this.packageResults[pkg.name] = {
+            status: 'ok',
+            version: pkg.version,
+            nodes: cached.nodes,
+          };
+          this.emitProgress({
+            type: 'package-extracted',
+            packageName: pkg.name,
+            nodes: cached.nodes.length,
+            cached: true,
+            descriptions: cached.nodes,
+            credentials: cached.credentials,
+          });
+        } else {
+          pending.push(pkg);
+        }
       }
 
-      this.log('Project package.json: ' + JSON.stringify(packageJson, null, 2));
-
-      await fs.writeFile(
-        path.join(projectPath, 'package.json'),
-        JSON.stringify(packageJson, null, 2)
-      );
-
-      // Install all dependencies with a single npm install
-      console.log(`📦 Installing dependencies (this may take a while)...`);
-      execSync('npm install --no-save --silent --legacy-peer-deps', {
-        cwd: projectPath,
-        stdio: 'pipe',
-      });
-      console.log(`✅ Dependencies installed`);
+      if (pending.length > 0 && this.cache && this.backend !== 'static') {
+        await this.prepareRuntime();
+      }
+      const projectPaths = await this.installPackages(pending);
 
-      // Process all packages in parallel
-      const results: Record<string, CompleteNodeDescription[]> = {};
-      const extractPromises = packageNames
-        .map(parsePackageName)
-        .map(async ({ name: packageName }) => {
-          const packagePath = path.join(projectPath, 'node_modules', packageName);
-          const nodes = await this.findNodes(packageName, packagePath, projectPath);
-          results[packageName] = nodes;
-          console.log(`✅ Extracted ${nodes.length} nodes from ${packageName}`);
+      // Process all installed packages in parallel
+      const extractPromises = pending
+        .filter(({ name }) => projectPaths.has(name))
+        .map(async ({ name: packageName, version, cacheable }) => {
+          const projectPath = projectPaths.get(packageName)!;
+          try {
+            const packagePath = path.join(projectPath, 'node_modules', packageName);
+            const nodes = await this.findNodes(packageName, packagePath, projectPath);
+            const credentials = await this.findCredentials(packageName, packagePath, projectPath);
+            this.linkSupportedNodes(credentials, nodes);
+            await this.exportIcons([...nodes, ...credentials]);
+            results[packageName] = nodes;
+            credentialResults[packageName] = credentials;
+            this.packageResults[packageName] = { status: 'ok', version, nodes };
+            this.emitProgress({
+              type: 'package-extracted',
+              packageName,
+              nodes: nodes.length,
+              cached: false,
+              descriptions: nodes,
+              credentials,
+            });
+            this.logger.info(
+              `✅ Extracted ${nodes.length} nodes and ${credentials.length} credentials from ${packageName}`
+            );
+            if (cacheable) {
+              await this.writeCachedResult(packageName, version, nodes, credentials);
+            }
+          } catch (error) {
+            this.logger.warn(
+              `❌ Could not extract ${packageName}: ${error instanceof Error ? error.message : String(error)}`
+            );
+            this.setFailed(packageName, version, 'extract', error);
+          }
         });
 
       await Promise.all(extractPromises);
 
+      // Keep the requested order in the output
+      this.packageResults = Object.fromEntries(
+        requestedNames.map(name => [name, this.packageResults[name]])
+      );
       this.extractedItems = results;
+      this.packageCredentials = credentialResults;
+      this.extractedCredentials = Object.values(credentialResults).flat();
       const totalNodes = Object.values(results).reduce((sum, nodes) => sum + nodes.length, 0);
-      console.log(
-        `✅ Found ${totalNodes} total node descriptions across ${packageNames.length} packages`
+      this.logger.info(
+        `✅ Found ${totalNodes} total node descriptions across ${Object.keys(results).length} packages`
       );
+      const failed = this.getFailedPackages();
+      if (failed.length > 0) {
+        this.logger.warn(`❌ ${failed.length} packages failed: ${failed.join(', ')}`);
+      }
 
       return results;
     } catch (error) {
-      console.error(`❌ Extraction failed:`, error);
+      this.logger.error(`❌ Extraction failed:`, error);
       throw error;
     } finally {
       await this.cleanup();
     }
   }
 
+  /**
+   * Install packages with a single npm install, falling back to one install per package when it
+   * fails so a broken package doesn't take the others down. Returns the project folder each
+   * installed package ended up in
+   */
+  private async installPackages(packages: ResolvedPackage[]): Promise<Map<string, string>> {
+    const projectPaths = new Map<string, string>();
+    if (packages.length === 0) return projectPaths;
+
+    this.logger.info(`📦 Installing dependencies (this may take a while)...`);
+    const projectPath = path.join(this.tempDir, 'project');
+    try {
+      await this.installProject(projectPath, packages);
+      for (const { name } of packages) {
+        projectPaths.set(name, projectPath);
+        this.emitProgress({ type: 'package-installed', packageName: name });
+      }
+      this.logger.info(`✅ Dependencies installed`);
+      return projectPaths;
+    } catch (error) {
+      if (packages.length === 1) {
+        this.logger.warn(`❌ Could not install ${packages[0].name}`);
+        this.setFailed(packages[0].name, packages[0].version, 'install', error);
+        return projectPaths;
+      }
+      this.logger.warn(
+        `⚠️  Combined install failed, installing ${packages.length} packages separately`
+      );
+    }
+
+    const limit = createLimiter(this.installConcurrency);
+    await Promise.all(
+      packages.map((pkg, index) =>
+        limit(async () => {
+          const packageProjectPath = path.join(this.tempDir, `project-${index}`);
+          try {
+            await this.installProject(packageProjectPath, [pkg]);
+            projectPaths.set(pkg.name, packageProjectPath);
+            this.emitProgress({ type: 'package-installed', packageName: pkg.name });
+            this.logger.info(`✅ Installed ${pkg.name}`);
+          } catch (error) {
+            this.logger.warn(`❌ Could not install ${pkg.name}`);
+            this.setFailed(pkg.name, pkg.version, 'install', error);
+          }
+        })
+      )
+    );
+
+    return projectPaths;
+  }
+
+  /**
+   * Create a project depending on the packages and run npm install in it
+   */
+  private async installProject(projectPath: string, packages: ResolvedPackage[]): Promise<void> {
+    const packageJson = {
+      name: 'n8n-multi-extractor',
+      version: '1.0.0',
+      dependencies: {} as Record<string, string>,
+    };
+
+    // The cached runtime is used instead when there is one
+    if (!this.cache || this.backend === 'static') {
+      Object.assign(
+        packageJson.dependencies,
+        (await this.getPinnedRuntimeVersions()) ?? {
+          'n8n-workflow': 'latest',
+          'n8n-core': 'latest',
+        }
+      );
+    }
+
+    for (const { name, version } of packages) {
+      packageJson.dependencies[name] = version;
+    }
+
+    this.log('Project package.json: ' + JSON.stringify(packageJson, null, 2));
+
+    await fs.mkdir(projectPath, { recursive: true });
+    await fs.writeFile(
+      path.join(projectPath, 'package.json'),
+      JSON.stringify(packageJson, null, 2)
+    );
+    await writeNpmrc(projectPath, this.registry);
+
+    // Static extraction only reads the installed files, so no install scripts are needed
+    const isStatic = this.backend === 'static';
+    const installScripts = await runNpmInstall(
+      projectPath,
+      `--no-save --loglevel=error --legacy-peer-deps${isStatic ? ' --ignore-scripts' : ''}`,
+      { ...this.getInstallOptions(), ...(isStatic && { allowScripts: [] }) }
+    );
+    this.recordInstallScripts(installScripts);
+  }
+
+  private setFailed(
+    packageName: string,
+    version: string | undefined,
+    stage: PackageExtractionError['stage'],
+    error: unknown
+  ): void {
+    const message = (error instanceof Error ? error.message : String(error)).split('\n')[0];
+    const details = getCommandOutput(error);
+    this.packageResults[packageName] = {
+      status: 'failed',
+      version,
+      nodes: [],
+      error: { stage, message, details },
+    };
+    this.addDiagnostic({
+      code: getPackageDiagnosticCode(stage, error),
+      packageName,
+      message: details ? `${message}\n${details}` : message,
+      stack: stage === 'install' || !(error instanceof Error) ? undefined : error.stack,
+    });
+  }
+
+  /**
+   * Keep one of the resolved packages with the same name. Results are keyed by package name and
+   * a package is installed once, so a package requested in different versions fails
+   */
+  private async dropDuplicatePackages(
+    resolved: Array<ResolvedPackage | null>
+  ): Promise<ResolvedPackage[]> {
+    const byName = new Map<string, ResolvedPackage[]>();
+    for (const pkg of resolved) {
+      if (pkg) byName.set(pkg.name, [...(byName.get(pkg.name) ?? []), pkg]);
+    }
+
+    const packages: ResolvedPackage[] = [];
+    for (const [name, requests] of byName) {
+      let versions = new Set(requests.map(pkg => pkg.version));
+      try {
+        // Without a cache registry versions are still specs, e.g. latest and 1.2.0
+        if (versions.size > 1 && requests.every(pkg => !pkg.version.startsWith('file:'))) {
+          const infos = await Promise.all(
+            requests.map(pkg => getPackageInfo(name, pkg.version, this.registry))
+          );
+          versions = new Set(infos.map(info => info.version));
+        }
+      } catch (error) {
+        this.setFailed(name, undefined, 'resolve', error);
+        continue;
+      }
+
+      if (versions.size > 1) {
+        this.setFailed(
+          name,
+          undefined,
+          'resolve',
+          new Error(
+            `${name} is requested in several versions (${[...versions].join(', ')}), extract them separately`
+          )
+        );
+      } else {
+        packages.push(requests[0]);
+      }
+    }
+    return packages;
+  }
+
+  /**
+   * Resolve a package argument to the name and version spec used in the project package.json.
+   * With a cache, registry packages are resolved to an exact version so results can be reused
+   */
+  private async resolvePackageSpec(spec: string): Promise<ResolvedPackage> {
+    if (isLocalPackageSpec(spec)) {
+      const localPath = resolveLocalPackagePath(spec);
+      const { name } = await readLocalPackageJson(localPath);
+      return { name, version: `file:${localPath}`, cacheable: false };
+    }
+
+    const { name, version } = parsePackageName(spec);
+    if (!this.cache) {
+      return { name, version, cacheable: false };
+    }
+    const packageInfo = await getPackageInfo(name, version, this.registry);
+    return { name, version: packageInfo.version, cacheable: true };
+  }
+
   /**
    * Find nodes in a package
    */
@@ -104,59 +409,106 @@ export class MultipleNodeExtractor extends BaseExtractor<
     const nodePromises = declaredNodes.map(async nodePath => {
       this.log(`[${packageName}] 🔍 Processing: ${nodePath}`);
 
-      const variations = [
-        nodePath,
-        nodePath.replace('.ts', '.js'),
-        nodePath.replace('src/', 'dist/'),
-        nodePath.replace('src/', 'lib/'),
-      ];
-
-      const checkResults = await Promise.all(
-        variations.map(async variation => {
-          const fullPath = path.resolve(packagePath, variation);
-          this.log(`[${packageName}] 🔍 Checking: ${fullPath}`);
-          try {
-            await fs.access(fullPath);
-            return { exists: true, path: fullPath };
-          } catch {
-            return { exists: false, path: fullPath };
-          }
-        })
-      );
-
-      const validPath = checkResults.find(result => result.exists);
-      this.log(`[${packageName}] 🔍 Valid path: ${validPath?.path}`);
-      if (validPath) {
+      const declared = await this.resolveDeclaredPath(packagePath, nodePath);
+      this.log(`[${packageName}] 🔍 Valid path: ${declared.filePath}`);
+      if (declared.filePath) {
         const projectNodeModules = path.join(projectPath, 'node_modules');
-        const node = await this.extractCompleteNode(
-          validPath.path,
+        const nodes = await this.extractCompleteNode(
+          declared.filePath,
           packageName,
           packagePath,
-          projectNodeModules
+          projectNodeModules,
+          declared
         );
-        if (node) {
+        if (nodes) {
           if (aiNodeSdkVersion !== undefined) {
-            node.aiNodeSdkVersion = aiNodeSdkVersion;
+            nodes.forEach(node => (node.aiNodeSdkVersion = aiNodeSdkVersion));
           }
-          return node;
+          return nodes;
         }
+      } else {
+        this.reportMissingFile(packageName, 'node', declared);
       }
 
-      console.warn(`❌ Could not extract: ${nodePath} from ${packageName}`);
+      this.logger.warn(`❌ Could not extract: ${nodePath} from ${packageName}`);
       return null;
     });
 
-    const nodes = (await Promise.all(nodePromises)).filter(
-      node => node !== null
-    ) as CompleteNodeDescription[];
+    const nodes = (await Promise.all(nodePromises))
+      .filter(versions => versions !== null)
+      .flat() as CompleteNodeDescription[];
 
     return nodes;
   }
 
+  /**
+   * Find credential types in a package
+   */
+  private async findCredentials(
+    packageName: string,
+    packagePath: string,
+    projectPath: string
+  ): Promise<CompleteCredentialDescription[]> {
+    const { credentials: declaredCredentials } = await getN8nPackageConfig(packagePath);
+    this.log(`[${packageName}] 🔍 Found ${JSON.stringify(declaredCredentials)}`);
+    const credentialPromises = declaredCredentials.map(async credentialPath => {
+      this.log(`[${packageName}] 🔍 Processing: ${credentialPath}`);
+
+      const declared = await this.resolveDeclaredPath(packagePath, credentialPath);
+      this.log(`[${packageName}] 🔍 Valid path: ${declared.filePath}`);
+      if (declared.filePath) {
+        const projectNodeModules = path.join(projectPath, 'node_modules');
+        const credential = await this.extractCompleteCredential(
+          declared.filePath,
+          packageName,
+          packagePath,
+          projectNodeModules,
+          declared
+        );
+        if (credential) {
+          return credential;
+        }
+      } else {
+        this.reportMissingFile(packageName, 'credential', declared);
+      }
+
+      this.logger.warn(`❌ Could not extract: ${credentialPath} from ${packageName}`);
+      return null;
+    });
+
+    return (await Promise.all(credentialPromises)).filter(
+      credential => credential !== null
+    ) as CompleteCredentialDescription[];
+  }
+
+  /**
+   * Get the status, nodes and error of every requested package
+   */
+  getPackageResults(): Record<string, PackageExtractionResult> {
+    return this.packageResults;
+  }
+
+  /**
+   * Get the names of the packages that could not be extracted
+   */
+  getFailedPackages(): string[] {
+    return Object.entries(this.packageResults)
+      .filter(([, result]) => result.status === 'failed')
+      .map(([packageName]) => packageName);
+  }
+
+  /**
+   * Get extracted credentials grouped by package
+   */
+  getPackageCredentials(): Record<string, CompleteCredentialDescription[]> {
+    return this.packageCredentials;
+  }
+
   /**
    * Print summary of extracted nodes
    */
   printSummary(): void {
+    this.printFailures();
     if (Object.keys(this.extractedItems).length === 0) {
       console.log('\n❌ No nodes found');
       return;
@@ -180,10 +532,31 @@ export class MultipleNodeExtractor extends BaseExtractor<
           console.log(`     Icon: ${node.icon}`);
         }
         if (node.iconUrl) {
-          console.log(`     Icon URL: ${node.iconUrl}`);
+          console.log(`     Icon URL: ${this.formatIconUrl(node.iconUrl)}`);
         }
         index++;
       });
+
+      const credentials = this.packageCredentials[packageName] || [];
+      if (credentials.length > 0) {
+        console.log(
+          `  🔑 Credentials: ${credentials.map(credential => credential.name).join(', ')}`
+        );
+      }
+    }
+  }
+
+  private printFailures(): void {
+    const failed = this.getFailedPackages();
+    if (failed.length === 0) return;
+
+    console.log('\n❌ Failed packages:');
+    for (const packageName of failed) {
+      const { error } = this.packageResults[packageName];
+      console.log(`  ${packageName}: ${error?.stage} failed, ${error?.message}`);
+      if (error?.details && this.verbose) {
+        console.log(error.details.replace(/^/gm, '    '));
+      }
     }
   }
 
@@ -191,16 +564,70 @@ export class MultipleNodeExtractor extends BaseExtractor<
    * Save results with metadata in key-value format
    */
   async saveResults(filename: string): Promise<void> {
-    const data = {
+    const filePath = path.join(this.outputDir, filename);
+    await fs.writeFile(filePath, JSON.stringify(this.getResults(), null, 2));
+    this.logger.info(`💾 Saved descriptions to ${filePath}`);
+  }
+
+  /**
+   * Get the results with metadata in key-value format, as saved by saveResults
+   */
+  getResults(): MultipleExtractionResult {
+    return {
       extractedAt: new Date().toISOString(),
-      totalPackages: Object.keys(this.extractedItems).length,
+      totalPackages: Object.keys(this.packageResults).length,
+      failedPackages: this.getFailedPackages().length,
       totalNodes: Object.values(this.extractedItems).reduce((sum, nodes) => sum + nodes.length, 0),
       format: 'node-descriptions',
-      packages: this.extractedItems,
+      packages: this.packageResults,
+      credentials: this.packageCredentials,
+      ...(this.missingIcons.length > 0 && { missingIcons: this.missingIcons }),
+      diagnostics: this.diagnostics,
+      ...(this.hasInstallScripts() && { installScripts: this.installScripts }),
     };
+  }
 
-    const filePath = path.join(this.outputDir, filename);
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2));
-    console.log(`💾 Saved descriptions to ${filePath}`);
+  /**
+   * Save one document per package in Markdown, TypeScript, JSON Schema or OpenAPI format,
+   * Markdown pages get an index.md linking them
+   */
+  async saveDocuments(format: DocumentFormat): Promise<void> {
+    const pages: MarkdownPackage[] = Object.entries(this.extractedItems).map(
+      ([packageName, nodes]) => ({
+        packageName,
+        file: `${packageName.replace(/[@/]/g, '')}${DOCUMENT_EXTENSIONS[format]}`,
+        nodes,
+        credentials: this.packageCredentials[packageName] || [],
+      })
+    );
+
+    for (const page of pages) {
+      const content = renderDocument(format, page.packageName, page.nodes, page.credentials);
+      await fs.writeFile(path.join(this.outputDir, page.file), content);
+    }
+
+    if (format === 'markdown') {
+      await fs.writeFile(path.join(this.outputDir, 'index.md'), renderMarkdownIndex(pages));
+    }
+    this.logger.info(`💾 Saved ${format} for ${pages.length} packages to ${this.outputDir}`);
+  }
+
+  /**
+   * Save one OpenAPI document per declarative node of every package
+   */
+  async saveNodeOpenApiDocuments(): Promise<void> {
+    let count = 0;
+    for (const [packageName, nodes] of Object.entries(this.extractedItems)) {
+      const documents = renderNodeOpenApiDocuments(
+        packageName,
+        nodes,
+        this.packageCredentials[packageName] || []
+      );
+      for (const [file, content] of Object.entries(documents)) {
+        await fs.writeFile(path.join(this.outputDir, file), content);
+        count++;
+      }
+    }
+    this.logger.info(`💾 Saved openapi for ${count} nodes to ${this.outputDir}`);
   }
 }
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { ExtractorConfig } from '../types/node-description';
+import { ExtractionCache, getResultCacheOptions } from '../utils/cache-utils';
+import { NodeExtractor } from './node-extractor';
+
+const NODE = {
+  displayName: 'Foo',
+  name: 'foo',
+  group: ['transform'],
+  version: 1,
+  description: 'Foo node',
+  defaults: { name: 'Foo' },
+  inputs: ['main'],
+  outputs: ['main'],
+  properties: [],
+  packageName: 'n8n-nodes-foo',
+};
+
+describe('NodeExtractor with a cached result', () => {
+  let server: http.Server;
+  let cacheDir: string;
+  let config: ExtractorConfig;
+
+  before(async () => {
+    // Registry stub, only the version lookup is reached on a cache hit
+    server = http.createServer((req, res) => {
+      res.setHeader('content-type', 'application/json');
+      res.end(
+        JSON.stringify({
+          name: 'n8n-nodes-foo',
+          version: '1.0.0',
+          dist: { tarball: 'http://127.0.0.1/n8n-nodes-foo-1.0.0.tgz' },
+        })
+      );
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'extractor-test-'));
+    config = {
+      cacheDir,
+      safeInstall: true,
+      registry: { registry: `http://127.0.0.1:${port}/` },
+    };
+    await new ExtractionCache(cacheDir).writeResult(
+      {
+        packageName: 'n8n-nodes-foo',
+        version: '1.0.0',
+        nodes: [NODE],
+        credentials: [],
+        missingIcons: [],
+        diagnostics: [],
+      },
+      getResultCacheOptions(config)
+    );
+  });
+
+  after(async () => {
+    server.close();
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('returns the cached nodes without installing the package', async () => {
+    const extractor = new NodeExtractor(config);
+    const nodes = await extractor.extract('n8n-nodes-foo@1.0.0');
+
+    assert.deepEqual(
+      nodes.map(node => node.name),
+      ['foo']
+    );
+    // Nothing was installed, so the install scripts are unknown rather than empty
+    assert.equal(extractor.getResults().installScripts, undefined);
+  });
+});
@@ -1,49 +1,215 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { BaseExtractor } from './base-extractor';
-import { CompleteNodeDescription, ExtractorConfig } from '../types/node-description';
-import { downloadAndExtractPackage } from '../utils/download-utils';
-import { getN8nPackageConfig, parsePackageName, setupN8nDependencies } from '../utils/npm-utils';
+import {
+  CompleteCredentialDescription,
+  CompleteNodeDescription,
+  DocumentFormat,
+  ExtractionResult,
+  ExtractorConfig,
+} from '../types/node-description';
+import { downloadAndExtractTarball, extractTarball, getPackageInfo } from '../utils/download-utils';
+import {
+  getN8nPackageConfig,
+  isLocalPackageSpec,
+  parsePackageName,
+  readLocalPackageJson,
+  resolveLocalPackagePath,
+  setupN8nDependencies,
+} from '../utils/npm-utils';
+import { renderDocument, renderNodeOpenApiDocuments } from '../generators';
 
 export class NodeExtractor extends BaseExtractor<CompleteNodeDescription[], string> {
   private packagePath: string = '';
+  private packageName: string = '';
 
   constructor(config?: ExtractorConfig) {
     super(config);
   }
 
   /**
-   * Extract complete node descriptions from a community package
+   * Extract complete node descriptions from a community package, a local tarball or a directory
    */
   async extractInternal(config: string): Promise<CompleteNodeDescription[]> {
-    const { name: packageName, version } = parsePackageName(config);
-    console.log(`📦 Extracting node descriptions from: ${packageName}`);
-
     try {
       // Create temp directory
       await fs.mkdir(this.tempDir, { recursive: true });
 
-      // Download and extract package
-      this.packagePath = await downloadAndExtractPackage(packageName, this.tempDir, version);
+      let needsInstall = this.backend !== 'static';
+      // Only registry packages are cached, local files can change without a version bump
+      let resolvedVersion: string | undefined;
+
+      if (isLocalPackageSpec(config)) {
+        const localPath = resolveLocalPackagePath(config);
+        const packageJson = await readLocalPackageJson(localPath);
+        this.packageName = packageJson.name;
+        this.logger.info(
+          `📦 Extracting node descriptions from: ${this.packageName} (${localPath})`
+        );
+        this.emitProgress({
+          type: 'package-resolved',
+          packageName: this.packageName,
+          version: packageJson.version,
+        });
+
+        const { packagePath, installed } = await this.prepareLocalPackage(localPath);
+        this.packagePath = packagePath;
+        needsInstall = needsInstall && !installed;
+      } else {
+        const { name: packageName, version } = parsePackageName(config);
+        this.packageName = packageName;
+        this.logger.info(`📦 Extracting node descriptions from: ${packageName}`);
+
+        const packageInfo = await this.withDiagnostic(packageName, 'download-failed', () =>
+          getPackageInfo(packageName, version, this.registry)
+        );
+        this.logger.info(`📋 Package version: ${packageInfo.version}`);
+        resolvedVersion = packageInfo.version;
+        this.emitProgress({ type: 'package-resolved', packageName, version: resolvedVersion });
+
+        const cached = await this.readCachedResult(packageName, resolvedVersion);
+        if (cached) {
+          this.extractedItems = cached.nodes;
+          this.extractedCredentials = cached.credentials;
+          this.emitProgress({
+            type: 'package-extracted',
+            packageName,
+            nodes: cached.nodes.length,
+            cached: true,
+            descriptions: cached.nodes,
+            credentials: cached.credentials,
+          });
+          return cached.nodes;
+        }
+
+        // Download and extract package
+        this.packagePath = await this.withDiagnostic(packageName, 'download-failed', () =>
+          downloadAndExtractTarball(
+            packageInfo,
+            this.tempDir,
+            this.registry,
+            this.cache,
+            this.logger
+          )
+        );
+        this.emitProgress({ type: 'package-downloaded', packageName, version: resolvedVersion });
+      }
 
-      // Setup n8n dependencies
-      await setupN8nDependencies(this.packagePath);
+      // Setup n8n dependencies, static extraction doesn't run any package code
+      if (needsInstall) {
+        await this.withDiagnostic(this.packageName, 'install-failed', () =>
+          this.installDependencies()
+        );
+        this.emitProgress({ type: 'package-installed', packageName: this.packageName });
+      }
 
-      // Find and process nodes
-      const nodes = await this.findNodes(packageName);
+      // Find and process nodes and credentials
+      const nodes = await this.findNodes(this.packageName);
+      const credentials = await this.findCredentials(this.packageName);
+      this.linkSupportedNodes(credentials, nodes);
+      await this.exportIcons([...nodes, ...credentials]);
 
       this.extractedItems = nodes;
-      console.log(`✅ Found ${nodes.length} node descriptions`);
+      this.extractedCredentials = credentials;
+      this.logger.info(`✅ Found ${nodes.length} node descriptions`);
+      this.logger.info(`✅ Found ${credentials.length} credential types`);
+
+      if (resolvedVersion) {
+        await this.writeCachedResult(this.packageName, resolvedVersion, nodes, credentials);
+      }
+      this.emitProgress({
+        type: 'package-extracted',
+        packageName: this.packageName,
+        nodes: nodes.length,
+        cached: false,
+        descriptions: nodes,
+        credentials,
+      });
 
       return nodes;
     } catch (error) {
-      console.error(`❌ Extraction failed:`, error);
+      this.logger.error(`❌ Extraction failed:`, error);
       throw error;
     } finally {
       await this.cleanup();
     }
   }
 
+  /**
+   * Install the package dependencies, using the cached n8n runtime when caching
+   */
+  private async installDependencies(): Promise<void> {
+    if (!this.cache) {
+      const installScripts = await setupN8nDependencies(this.packagePath, this.registry, {
+        runtimeVersions: await this.getPinnedRuntimeVersions(),
+        install: this.getInstallOptions(),
+        logger: this.logger,
+      });
+      this.recordInstallScripts(installScripts);
+      return;
+    }
+
+    const packageJson = JSON.parse(
+      await fs.readFile(path.join(this.packagePath, 'package.json'), 'utf8')
+    );
+    await this.prepareRuntime(packageJson.peerDependencies);
+    const installScripts = await setupN8nDependencies(this.packagePath, this.registry, {
+      skipRuntime: true,
+      install: this.getInstallOptions(),
+      logger: this.logger,
+    });
+    this.recordInstallScripts(installScripts);
+  }
+
+  /**
+   * Get the results with metadata, as saved by saveResults
+   */
+  getResults(): ExtractionResult {
+    return this.buildResults('node-descriptions');
+  }
+
+  /**
+   * Get the name of the extracted package, read from its package.json for local packages
+   */
+  getPackageName(): string {
+    return this.packageName;
+  }
+
+  /**
+   * Prepare a local tarball or directory for extraction. Directories that already have their
+   * dependencies installed (e.g. a node project being built) are used in place, unless the n8n
+   * runtime is pinned. Anything else is copied to the temp directory so the local files are
+   * never modified.
+   */
+  private async prepareLocalPackage(
+    localPath: string
+  ): Promise<{ packagePath: string; installed: boolean }> {
+    const stat = await fs.stat(localPath);
+
+    if (!stat.isDirectory()) {
+      return { packagePath: await extractTarball(localPath, this.tempDir), installed: false };
+    }
+
+    // A pinned runtime has to be installed, the package's own n8n-workflow would be loaded first
+    const installed =
+      !this.n8nVersion &&
+      (await fs.access(path.join(localPath, 'node_modules', 'n8n-workflow')).then(
+        () => true,
+        () => false
+      ));
+    if (installed) {
+      this.log(`Using installed dependencies from ${localPath}`);
+      return { packagePath: localPath, installed: true };
+    }
+
+    const packagePath = path.join(this.tempDir, 'extracted');
+    await fs.cp(localPath, packagePath, {
+      recursive: true,
+      filter: source => !['node_modules', '.git'].includes(path.basename(source)),
+    });
+    return { packagePath, installed: false };
+  }
+
   /**
    * Find nodes in the package
    */
@@ -52,60 +218,110 @@ export class NodeExtractor extends BaseExtractor<CompleteNodeDescription[], stri
 
     // Process nodes in parallel using Promise.all
     const nodePromises = declaredNodes.map(async nodePath => {
-      console.log(`🔍 Processing: ${nodePath}`);
-
-      // Generate path variations
-      const variations = [
-        nodePath,
-        nodePath.replace('.ts', '.js'),
-        nodePath.replace('src/', 'dist/'),
-        nodePath.replace('src/', 'lib/'),
-      ];
-
-      // Check all variations in parallel
-      const checkResults = await Promise.all(
-        variations.map(async variation => {
-          const fullPath = path.resolve(this.packagePath, variation);
-          try {
-            await fs.access(fullPath);
-            return { exists: true, path: fullPath };
-          } catch {
-            return { exists: false, path: fullPath };
-          }
-        })
-      );
+      this.logger.info(`🔍 Processing: ${nodePath}`);
 
-      // Find the first valid path
-      const validPath = checkResults.find(result => result.exists);
+      const declared = await this.resolveDeclaredPath(this.packagePath, nodePath);
 
-      if (validPath) {
+      if (declared.filePath) {
         const packageNodeModules = path.join(this.packagePath, 'node_modules');
-        const node = await this.extractCompleteNode(
-          validPath.path,
+        const nodes = await this.extractCompleteNode(
+          declared.filePath,
           packageName,
           this.packagePath,
-          packageNodeModules
+          packageNodeModules,
+          declared
         );
-        if (node) {
+        if (nodes) {
           if (aiNodeSdkVersion !== undefined) {
-            node.aiNodeSdkVersion = aiNodeSdkVersion;
+            nodes.forEach(node => (node.aiNodeSdkVersion = aiNodeSdkVersion));
           }
-          return node;
+          return nodes;
         }
+      } else {
+        this.reportMissingFile(packageName, 'node', declared);
       }
 
-      console.warn(`❌ Could not extract: ${nodePath}`);
+      this.logger.warn(`❌ Could not extract: ${nodePath}`);
       return null;
     });
 
     // Filter out null results
-    const nodes = (await Promise.all(nodePromises)).filter(
-      node => node !== null
-    ) as CompleteNodeDescription[];
+    const nodes = (await Promise.all(nodePromises))
+      .filter(versions => versions !== null)
+      .flat() as CompleteNodeDescription[];
 
     return nodes;
   }
 
+  /**
+   * Find credential types in the package
+   */
+  private async findCredentials(packageName: string): Promise<CompleteCredentialDescription[]> {
+    const { credentials: declaredCredentials } = await getN8nPackageConfig(this.packagePath);
+
+    const credentialPromises = declaredCredentials.map(async credentialPath => {
+      this.logger.info(`🔍 Processing: ${credentialPath}`);
+
+      const declared = await this.resolveDeclaredPath(this.packagePath, credentialPath);
+
+      if (declared.filePath) {
+        const packageNodeModules = path.join(this.packagePath, 'node_modules');
+        const credential = await this.extractCompleteCredential(
+          declared.filePath,
+          packageName,
+          this.packagePath,
+          packageNodeModules,
+          declared
+        );
+        if (credential) {
+          return credential;
+        }
+      } else {
+        this.reportMissingFile(packageName, 'credential', declared);
+      }
+
+      this.logger.warn(`❌ Could not extract: ${credentialPath}`);
+      return null;
+    });
+
+    return (await Promise.all(credentialPromises)).filter(
+      credential => credential !== null
+    ) as CompleteCredentialDescription[];
+  }
+
+  /**
+   * Save the descriptions as Markdown documentation, TypeScript types, JSON Schema or OpenAPI
+   */
+  async saveDocument(format: DocumentFormat, filename: string): Promise<void> {
+    const content = renderDocument(
+      format,
+      this.getPackageName(),
+      this.extractedItems,
+      this.extractedCredentials
+    );
+
+    const filePath = path.join(this.outputDir, filename);
+    await fs.writeFile(filePath, content);
+    this.logger.info(`💾 Saved ${format} to ${filePath}`);
+  }
+
+  /**
+   * Save one OpenAPI document per declarative node, returns the file names
+   */
+  async saveNodeOpenApiDocuments(): Promise<string[]> {
+    const documents = renderNodeOpenApiDocuments(
+      this.getPackageName(),
+      this.extractedItems,
+      this.extractedCredentials
+    );
+
+    for (const [file, content] of Object.entries(documents)) {
+      await fs.writeFile(path.join(this.outputDir, file), content);
+    }
+    this.logger.info(`💾 Saved openapi for ${Object.keys(documents).length} nodes`);
+    return Object.keys(documents);
+  }
+
   /**
    * Print summary of extracted nodes
    */
@@ -130,8 +346,17 @@ export class NodeExtractor extends BaseExtractor<CompleteNodeDescription[], stri
         console.log(`   Icon: ${node.icon}`);
       }
       if (node.iconUrl) {
-        console.log(`   Icon URL: ${node.iconUrl}`);
+        console.log(`   Icon URL: ${this.formatIconUrl(node.iconUrl)}`);
       }
     });
+
+    if (this.extractedCredentials.length > 0) {
+      console.log('\n🔑 Credential Types Extracted:');
+      this.extractedCredentials.forEach((credential, index) => {
+        console.log(`\n${index + 1}. ${credential.displayName} (${credential.name})`);
+        console.log(`   Properties: ${credential.properties.length}`);
+        console.log(`   Supported Nodes: ${credential.supportedNodes?.join(', ') || 'None'}`);
+      });
+    }
   }
 }
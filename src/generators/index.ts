@@ -0,0 +1,55 @@
+import {
+  CompleteCredentialDescription,
+  CompleteNodeDescription,
+  DocumentFormat,
+} from '../types/node-description';
+import { renderPackageMarkdown } from './markdown';
+import { renderNodeTypes } from './typescript';
+import { buildNodeJsonSchema } from './json-schema';
+import { buildNodeOpenApiDocuments, buildOpenApiDocument } from './openapi';
+
+export const DOCUMENT_EXTENSIONS: Record<DocumentFormat, string> = {
+  markdown: '.md',
+  typescript: '.d.ts',
+  'json-schema': '.schema.json',
+  openapi: '.openapi.json',
+};
+
+/**
+ * Render the nodes and credentials of one package in a document format
+ */
+export function renderDocument(
+  format: DocumentFormat,
+  packageName: string,
+  nodes: CompleteNodeDescription[],
+  credentials: CompleteCredentialDescription[]
+): string {
+  switch (format) {
+    case 'markdown':
+      return renderPackageMarkdown(packageName, nodes, credentials);
+    case 'typescript':
+      return renderNodeTypes(packageName, nodes);
+    case 'json-schema':
+      return JSON.stringify(buildNodeJsonSchema(packageName, nodes), null, 2) + '\n';
+    case 'openapi':
+      return JSON.stringify(buildOpenApiDocument(packageName, nodes, credentials), null, 2) + '\n';
+  }
+}
+
+/**
+ * Render one OpenAPI document per declarative node of a package, keyed by file name:
+ * <package>.<node>.openapi.json
+ */
+export function renderNodeOpenApiDocuments(
+  packageName: string,
+  nodes: CompleteNodeDescription[],
+  credentials: CompleteCredentialDescription[]
+): Record<string, string> {
+  const prefix = packageName.replace(/[@/]/g, '');
+  return Object.fromEntries(
+    Object.entries(buildNodeOpenApiDocuments(nodes, credentials)).map(([name, document]) => [
+      `${prefix}.${name.split('.').pop()}${DOCUMENT_EXTENSIONS.openapi}`,
+      JSON.stringify(document, null, 2) + '\n',
+    ])
+  );
+}
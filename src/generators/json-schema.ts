@@ -0,0 +1,186 @@
+import { CompleteNodeDescription } from '../types/node-description';
+import {
+  dependsOnlyOn,
+  getCollectionFields,
+  getCollectionGroups,
+  getParameterVariants,
+  getVersions,
+  isDisplayOnly,
+  isStringType,
+  NodeProperty,
+  ParameterVariant,
+} from '../analyzers/description-utils';
+import { getParameterTypeNames } from './typescript';
+
+type JsonSchema = Record<string, unknown>;
+
+type ObjectSchema = JsonSchema & {
+  properties: Record<string, JsonSchema>;
+  required?: string[];
+};
+
+const EXPRESSION_REF = { $ref: '#/definitions/NodeParameterExpression' };
+
+function withExpression(schema: JsonSchema, property: NodeProperty): JsonSchema {
+  return property.noDataExpression ? schema : { anyOf: [schema, EXPRESSION_REF] };
+}
+
+function getOptionSchema(property: NodeProperty): JsonSchema {
+  const options = Array.isArray(property.options) ? property.options : [];
+  if (property.typeOptions?.loadOptionsMethod || options.length === 0) {
+    return { type: ['string', 'number'] };
+  }
+  return { enum: [...new Set(options.map(option => option.value))] };
+}
+
+function getValueSchema(property: NodeProperty): JsonSchema {
+  if (isStringType(property)) return { type: 'string' };
+
+  switch (property.type) {
+    case 'number':
+      return withExpression({ type: 'number' }, property);
+    case 'boolean':
+      return withExpression({ type: 'boolean' }, property);
+    case 'options':
+      return withExpression(getOptionSchema(property), property);
+    case 'multiOptions':
+      return withExpression({ type: 'array', items: getOptionSchema(property) }, property);
+    case 'resourceLocator':
+      return withExpression({ $ref: '#/definitions/ResourceLocatorValue' }, property);
+    case 'collection':
+      return buildObjectSchema(getCollectionFields(property), true);
+    case 'fixedCollection': {
+      const groups: Record<string, JsonSchema> = {};
+      for (const group of getCollectionGroups(property)) {
+        const values = buildObjectSchema(group.values || [], false);
+        groups[group.name] = {
+          title: group.displayName,
+          ...(property.typeOptions?.multipleValues ? { type: 'array', items: values } : values),
+        };
+      }
+      return { type: 'object', properties: groups, additionalProperties: false };
+    }
+    default:
+      return {};
+  }
+}
+
+function getPropertySchema(property: NodeProperty): JsonSchema {
+  return {
+    title: property.displayName,
+    ...(property.description && { description: property.description }),
+    ...(property.default !== undefined && { default: property.default }),
+    ...getValueSchema(property),
+  };
+}
+
+/**
+ * Build an object schema, properties with the same name (shown under different conditions)
+ * accept any of their schemas. Only properties whose displayOptions refer to nothing but the
+ * `known` parameters can be required, others may be hidden by values the schema can't tell
+ */
+function buildObjectSchema(
+  properties: NodeProperty[],
+  allOptional: boolean,
+  known: string[] = []
+): ObjectSchema {
+  const byName = new Map<string, NodeProperty[]>();
+  for (const property of properties.filter(p => !isDisplayOnly(p))) {
+    byName.set(property.name, [...(byName.get(property.name) || []), property]);
+  }
+
+  const schemaProperties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [name, variants] of byName) {
+    const schemas = variants.map(getPropertySchema);
+    const unique = schemas.filter(
+      (schema, index) =>
+        schemas.findIndex(s => JSON.stringify(s) === JSON.stringify(schema)) === index
+    );
+    schemaProperties[name] = unique.length === 1 ? unique[0] : { anyOf: unique };
+    if (!allOptional && variants.every(p => p.required && dependsOnlyOn(p, known))) {
+      required.push(name);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties: schemaProperties,
+    ...(required.length > 0 && { required }),
+    additionalProperties: false,
+  };
+}
+
+function buildVariantSchema(variant: ParameterVariant): JsonSchema {
+  const schema = buildObjectSchema(
+    variant.properties,
+    false,
+    variant.discriminators.map(({ property }) => property.name)
+  );
+
+  // The discriminator can be left out when its value is the default, like n8n does when saving
+  for (const { property, value } of variant.discriminators) {
+    schema.properties = { [property.name]: { const: value }, ...schema.properties };
+    if (property.default !== value) {
+      schema.required = [property.name, ...(schema.required || [])];
+    }
+  }
+
+  return schema;
+}
+
+function buildNodeSchema(node: CompleteNodeDescription): JsonSchema {
+  const variants = getParameterVariants(node.properties || []);
+  const header = {
+    title: `${node.displayName} (${node.name}), version ${getVersions(node).join(', ')}`,
+  };
+
+  if (variants.length === 1) {
+    return { ...header, ...buildVariantSchema(variants[0]) };
+  }
+  // Variants can overlap, e.g. when their discriminators are left out for being the default
+  return { ...header, anyOf: variants.map(buildVariantSchema) };
+}
+
+/**
+ * Build a JSON Schema with a definition for the parameters of every node of a package, named
+ * like the types generated by renderNodeTypes
+ */
+export function buildNodeJsonSchema(
+  packageName: string,
+  nodes: CompleteNodeDescription[]
+): JsonSchema {
+  const typeNames = getParameterTypeNames(nodes);
+  const definitions: Record<string, JsonSchema> = {
+    NodeParameterExpression: { type: 'string', pattern: '^=' },
+    ResourceLocatorValue: {
+      type: 'object',
+      properties: {
+        __rl: { const: true },
+        mode: { type: 'string' },
+        value: { type: ['string', 'number'] },
+        cachedResultName: { type: 'string' },
+        cachedResultUrl: { type: 'string' },
+      },
+      required: ['__rl', 'mode', 'value'],
+    },
+  };
+
+  const byNodeType: Record<string, { anyOf: JsonSchema[] }> = {};
+  for (const node of nodes) {
+    const typeName = typeNames.get(node)!;
+    definitions[typeName] = buildNodeSchema(node);
+    byNodeType[node.name] = {
+      anyOf: [...(byNodeType[node.name]?.anyOf || []), { $ref: `#/definitions/${typeName}` }],
+    };
+  }
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: `Node parameters of ${packageName}`,
+    type: 'object',
+    // Parameters by node type
+    properties: byNodeType,
+    definitions,
+  };
+}
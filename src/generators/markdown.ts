@@ -0,0 +1,254 @@
+import { CompleteCredentialDescription, CompleteNodeDescription } from '../types/node-description';
+import {
+  dependsOn,
+  getCollectionFields,
+  getCollectionGroups,
+  isDisplayOnly,
+  isShownFor,
+  NodeProperty,
+} from '../analyzers/description-utils';
+
+export interface MarkdownPackage {
+  packageName: string;
+  // File the package page is written to, relative to the index
+  file: string;
+  nodes: CompleteNodeDescription[];
+  credentials: CompleteCredentialDescription[];
+}
+
+/**
+ * Escape text for use inside a table cell
+ */
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function formatCode(value: unknown): string {
+  if (value === undefined || value === '') return '';
+  return `\`${escapeCell(typeof value === 'string' ? value : JSON.stringify(value))}\``;
+}
+
+/**
+ * Build the anchor GitHub generates for a heading
+ */
+function toAnchor(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s/g, '-');
+}
+
+function getNodeHeading(node: CompleteNodeDescription): string {
+  if (!node.__implementation) return node.displayName;
+  return `${node.displayName} (v${node.__implementation.versions.join(', ')})`;
+}
+
+function getOptions(property: NodeProperty): NonNullable<NodeProperty['options']> {
+  return Array.isArray(property.options) ? property.options : [];
+}
+
+function describeOptions(property: NodeProperty): string {
+  const options = getOptions(property);
+
+  if (property.type === 'options' || property.type === 'multiOptions') {
+    if (property.typeOptions?.loadOptionsMethod) {
+      return `Loaded from \`${property.typeOptions.loadOptionsMethod}\``;
+    }
+    return options
+      .map(option => `${escapeCell(option.name)} (${formatCode(option.value)})`)
+      .join('<br>');
+  }
+  if (property.type === 'collection') {
+    return getCollectionFields(property)
+      .map(option => `${escapeCell(option.displayName)} (\`${option.name}\`)`)
+      .join('<br>');
+  }
+  if (property.type === 'fixedCollection') {
+    return getCollectionGroups(property)
+      .map(
+        group =>
+          `${escapeCell(group.displayName ?? group.name)}: ${(group.values || [])
+            .map(value => escapeCell(value.displayName))
+            .join(', ')}`
+      )
+      .join('<br>');
+  }
+  return '';
+}
+
+function renderParameterTable(properties: NodeProperty[]): string[] {
+  const rows = properties.filter(p => !isDisplayOnly(p));
+  if (rows.length === 0) return ['_No parameters_', ''];
+
+  return [
+    '| Parameter | Type | Default | Required | Description | Options |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...rows.map(
+      property =>
+        `| ${escapeCell(property.displayName)}<br>\`${property.name}\` | ${property.type} | ${formatCode(property.default)} | ${property.required ? 'Yes' : 'No'} | ${escapeCell(property.description || '')} | ${describeOptions(property)} |`
+    ),
+    '',
+  ];
+}
+
+/**
+ * Render one section per resource and operation, with the parameters displayOptions shows there
+ */
+function renderOperations(properties: NodeProperty[]): string[] {
+  const resourceProperty = properties.find(p => p.name === 'resource');
+  const operationProperties = properties.filter(p => p.name === 'operation');
+  const parameters = properties.filter(p => p.name !== 'resource' && p.name !== 'operation');
+  const selectors = ['resource', 'operation'];
+  const lines: string[] = [];
+
+  const general = parameters.filter(p => !dependsOn(p, selectors));
+  if (general.length > 0 || operationProperties.length === 0) {
+    lines.push('### Parameters', '', ...renderParameterTable(general));
+  }
+  if (operationProperties.length === 0) return lines;
+
+  const resources: Array<{ name?: string; value?: unknown; description?: string }> =
+    resourceProperty ? getOptions(resourceProperty) : [{}];
+
+  for (const resource of resources) {
+    const resourceValues = resourceProperty ? { resource: resource.value } : {};
+    const operations = operationProperties
+      .filter(p => isShownFor(p, resourceValues))
+      .flatMap(getOptions);
+
+    if (resourceProperty) {
+      lines.push(`### ${resource.name}`, '');
+      if (resource.description) lines.push(resource.description, '');
+    }
+
+    for (const operation of operations) {
+      const values = { ...resourceValues, operation: operation.value };
+      lines.push(`${resourceProperty ? '####' : '###'} ${operation.name}`, '');
+      if (operation.description) lines.push(operation.description, '');
+      lines.push(
+        ...renderParameterTable(
+          parameters.filter(p => dependsOn(p, selectors) && isShownFor(p, values))
+        )
+      );
+    }
+  }
+
+  return lines;
+}
+
+function renderNode(node: CompleteNodeDescription): string[] {
+  const versions = Array.isArray(node.version) ? node.version : [node.version];
+  const lines = [`## ${getNodeHeading(node)}`, ''];
+
+  if (node.description) lines.push(node.description, '');
+
+  lines.push(
+    '| | |',
+    '| --- | --- |',
+    `| Name | \`${node.name}\` |`,
+    `| Version | ${versions.join(', ')} |`,
+    `| Group | ${node.group.join(', ')} |`,
+    `| Inputs | ${node.inputs.map(formatCode).join(', ')} |`,
+    `| Outputs | ${node.outputs.map(formatCode).join(', ')} |`
+  );
+  if (node.usableAsTool) lines.push('| Usable as tool | Yes |');
+  lines.push('');
+
+  const documentation = [
+    ...(node.codex?.resources?.primaryDocumentation || []),
+    ...(node.codex?.resources?.credentialDocumentation || []),
+  ];
+  if (documentation.length > 0) {
+    lines.push('### Documentation', '');
+    lines.push(...documentation.map(doc => `- [${doc.title || doc.url}](${doc.url})`), '');
+  }
+
+  if (node.credentials?.length) {
+    lines.push('### Credentials', '', '| Credential | Required |', '| --- | --- |');
+    lines.push(
+      ...node.credentials.map(
+        credential => `| \`${credential.name}\` | ${credential.required ? 'Yes' : 'No'} |`
+      ),
+      ''
+    );
+  }
+
+  if (node.webhooks?.length) {
+    lines.push('### Webhooks', '', '| Name | Method | Path | Response mode |');
+    lines.push('| --- | --- | --- | --- |');
+    lines.push(
+      ...node.webhooks.map(
+        webhook =>
+          `| ${webhook.name} | ${formatCode(webhook.httpMethod)} | ${formatCode(webhook.path)} | ${formatCode(webhook.responseMode)} |`
+      ),
+      ''
+    );
+  }
+
+  lines.push(...renderOperations(node.properties || []));
+  return lines;
+}
+
+function renderCredential(credential: CompleteCredentialDescription): string[] {
+  const lines = [`### ${credential.displayName}`, '', `Name: \`${credential.name}\``, ''];
+
+  if (credential.extends?.length) {
+    lines.push(`Extends: ${credential.extends.map(formatCode).join(', ')}`, '');
+  }
+  if (credential.documentationUrl?.startsWith('http')) {
+    lines.push(`[Documentation](${credential.documentationUrl})`, '');
+  }
+
+  lines.push(...renderParameterTable(credential.properties || []));
+  return lines;
+}
+
+/**
+ * Render the documentation page of one package
+ */
+export function renderPackageMarkdown(
+  packageName: string,
+  nodes: CompleteNodeDescription[],
+  credentials: CompleteCredentialDescription[] = []
+): string {
+  const contents = nodes.map(
+    node => `- [${getNodeHeading(node)}](#${toAnchor(getNodeHeading(node))})`
+  );
+  if (credentials.length > 0) contents.push('- [Credential types](#credential-types)');
+
+  const lines = [`# ${packageName}`, '', ...contents, ''];
+
+  for (const node of nodes) {
+    lines.push(...renderNode(node));
+  }
+
+  if (credentials.length > 0) {
+    lines.push('## Credential types', '');
+    for (const credential of credentials) {
+      lines.push(...renderCredential(credential));
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Render an index linking the pages of several packages
+ */
+export function renderMarkdownIndex(packages: MarkdownPackage[]): string {
+  const lines = [
+    '# Community nodes',
+    '',
+    '| Package | Nodes | Credentials |',
+    '| --- | --- | --- |',
+    ...packages.map(
+      ({ packageName, file, nodes, credentials }) =>
+        `| [${packageName}](${file}) | ${nodes
+          .map(node => `[${getNodeHeading(node)}](${file}#${toAnchor(getNodeHeading(node))})`)
+          .join('<br>')} | ${credentials.map(c => escapeCell(c.displayName)).join('<br>')} |`
+    ),
+  ];
+
+  return lines.join('\n') + '\n';
+}
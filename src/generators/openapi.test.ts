@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CompleteCredentialDescription, CompleteNodeDescription } from '../types/node-description';
+import { buildNodeOpenApiDocuments, buildOpenApiDocument } from './openapi';
+
+function declarativeNode(
+  name: string,
+  version: number,
+  credential: string
+): CompleteNodeDescription {
+  return {
+    displayName: name,
+    name: `n8n-nodes-foo.${name}`,
+    group: ['transform'],
+    version,
+    description: `${name} node`,
+    defaults: { name },
+    inputs: ['main'],
+    outputs: ['main'],
+    credentials: [{ name: credential, required: true }],
+    requestDefaults: { baseURL: `https://${name}.example.com` },
+    properties: [
+      {
+        displayName: 'Operation',
+        name: 'operation',
+        type: 'options',
+        default: 'get',
+        options: [
+          {
+            name: 'Get',
+            value: 'get',
+            routing: { request: { method: 'GET', url: `/v${version}/items` } },
+          },
+        ],
+      },
+    ],
+  } as CompleteNodeDescription;
+}
+
+function apiKeyCredential(name: string): CompleteCredentialDescription {
+  return {
+    name,
+    displayName: name,
+    properties: [],
+    authenticate: {
+      type: 'generic',
+      properties: { headers: { 'X-Api-Key': '={{$credentials.apiKey}}' } },
+    },
+  } as CompleteCredentialDescription;
+}
+
+describe('buildNodeOpenApiDocuments', () => {
+  const programmatic = {
+    ...declarativeNode('code', 1, 'fooApi'),
+    requestDefaults: undefined,
+    properties: [],
+  } as CompleteNodeDescription;
+
+  const documents = buildNodeOpenApiDocuments(
+    [
+      declarativeNode('pets', 1, 'petsApi'),
+      declarativeNode('pets', 2, 'petsApi'),
+      declarativeNode('stores', 1, 'storesApi'),
+      programmatic,
+    ],
+    [apiKeyCredential('petsApi'), apiKeyCredential('storesApi')]
+  );
+
+  it('builds one document per declarative node', () => {
+    assert.deepEqual(Object.keys(documents), ['n8n-nodes-foo.pets', 'n8n-nodes-foo.stores']);
+  });
+
+  it('holds the requests of every version of the node', () => {
+    const { paths } = documents['n8n-nodes-foo.pets'] as { paths: object };
+    assert.deepEqual(Object.keys(paths), ['/v1/items', '/v2/items']);
+  });
+
+  it('only holds the credentials the node uses', () => {
+    const { components } = documents['n8n-nodes-foo.pets'] as {
+      components: { securitySchemes: object };
+    };
+    assert.deepEqual(Object.keys(components.securitySchemes), ['petsApi']);
+  });
+});
+
+describe('buildOpenApiDocument', () => {
+  it('keeps the same route on other servers apart', () => {
+    const { paths } = buildOpenApiDocument('Nodes', [
+      declarativeNode('a', 1, 'aApi'),
+      declarativeNode('b', 1, 'bApi'),
+    ]) as { paths: Record<string, Record<string, { servers: Array<{ url: string }> }>> };
+
+    assert.deepEqual(Object.keys(paths), ['/v1/items', '/v1/items#https://b.example.com']);
+    assert.deepEqual(paths['/v1/items'].get.servers, [{ url: 'https://a.example.com' }]);
+    assert.deepEqual(paths['/v1/items#https://b.example.com'].get.servers, [
+      { url: 'https://b.example.com' },
+    ]);
+  });
+
+  it('lists the URLs of optional parameters as variants', () => {
+    const node = declarativeNode('pets', 1, 'petsApi');
+    node.properties.push({
+      displayName: 'Item ID',
+      name: 'itemId',
+      type: 'string',
+      default: '',
+      routing: { request: { url: '=/v1/items/{{$value}}' } },
+    });
+    const { paths } = buildOpenApiDocument('Pets', [node]) as {
+      paths: Record<string, Record<string, Record<string, unknown>>>;
+    };
+
+    assert.deepEqual(Object.keys(paths), ['/v1/items']);
+    assert.deepEqual(paths['/v1/items'].get['x-n8n-variants'], [
+      { parameter: 'itemId', path: '/v1/items/{itemId}' },
+    ]);
+  });
+});
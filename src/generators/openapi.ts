@@ -0,0 +1,296 @@
+import {
+  CompleteCredentialDescription,
+  CompleteNodeDescription,
+  RoutingOperation,
+  RoutingParameter,
+} from '../types/node-description';
+import { getVersions, isStringType, NodeProperty } from '../analyzers/description-utils';
+import { buildRoutingMap, isDeclarativeNode } from '../analyzers/node-routing';
+
+type OpenApiObject = Record<string, unknown>;
+
+type ObjectSchema = {
+  type: 'object';
+  properties: Record<string, OpenApiObject>;
+  required?: string[];
+};
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+const ABSOLUTE_URL = /^([a-z][a-z0-9+.-]*:\/\/[^/]*)(.*)$/i;
+
+function getParameterSchema(parameter: RoutingParameter): OpenApiObject {
+  if (isStringType({ type: parameter.type } as NodeProperty)) return { type: 'string' };
+  switch (parameter.type) {
+    case 'number':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'multiOptions':
+      return { type: 'array', items: { type: ['string', 'number'] } };
+    case 'options':
+      return { type: ['string', 'number'] };
+    case 'collection':
+    case 'fixedCollection':
+      return { type: 'object' };
+    default:
+      return {};
+  }
+}
+
+function describeParameter(parameter: RoutingParameter): string {
+  return parameter.value
+    ? `n8n parameter ${parameter.parameter}, sent as ${parameter.value}`
+    : `n8n parameter ${parameter.parameter}`;
+}
+
+function getPlaceholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER)].map(match => match[1]);
+}
+
+/**
+ * Split the URL of an operation into its server and path, absolute URLs override the baseURL
+ * like they do in n8n
+ */
+function getServerAndPath(operation: RoutingOperation): { server?: string; path: string } | null {
+  const url = operation.path ?? '';
+  const absolute = ABSOLUTE_URL.exec(url);
+  if (absolute) return { server: absolute[1], path: absolute[2] || '/' };
+  if (!operation.baseURL && !operation.path) return null;
+
+  const path = url.startsWith('/') ? url : `/${url}`;
+  return { server: operation.baseURL?.replace(/\/$/, ''), path };
+}
+
+function buildServer(url: string): OpenApiObject {
+  const variables: Record<string, OpenApiObject> = {};
+  for (const name of getPlaceholders(url)) {
+    variables[name] = { default: '', description: `Credential field or n8n parameter ${name}` };
+  }
+  return { url, ...(Object.keys(variables).length > 0 && { variables }) };
+}
+
+/**
+ * Build the JSON body schema from the body parameters and fixed body fields, dotted property
+ * names are nested objects
+ */
+function buildBodySchema(operation: RoutingOperation): ObjectSchema | undefined {
+  const parameters = operation.parameters.filter(parameter => parameter.in === 'body');
+  const fixed = Object.entries(operation.body ?? {});
+  if (parameters.length === 0 && fixed.length === 0) return undefined;
+
+  const root: ObjectSchema = { type: 'object', properties: {} };
+  const setField = (property: string, schema: OpenApiObject, required: boolean) => {
+    const keys = property.split('.');
+    let target = root;
+    for (const key of keys.slice(0, -1)) {
+      if (!target.properties[key]) target.properties[key] = { type: 'object', properties: {} };
+      target = target.properties[key] as ObjectSchema;
+    }
+    const name = keys[keys.length - 1];
+    target.properties[name] = schema;
+    if (required) target.required = [...(target.required ?? []), name];
+  };
+
+  for (const [name, value] of fixed) {
+    setField(name, { const: value }, true);
+  }
+  for (const parameter of parameters) {
+    setField(
+      parameter.property,
+      {
+        ...getParameterSchema(parameter),
+        description: describeParameter(parameter),
+      },
+      parameter.required
+    );
+  }
+  return root;
+}
+
+function buildParameters(operation: RoutingOperation, path: string): OpenApiObject[] {
+  const inPath = new Set(getPlaceholders(path));
+  const parameters: OpenApiObject[] = [];
+
+  for (const parameter of operation.parameters) {
+    if (parameter.in === 'body') continue;
+    // Placeholders of the baseURL are server variables
+    if (parameter.in === 'path' && !inPath.has(parameter.property)) continue;
+
+    parameters.push({
+      name: parameter.property,
+      in: parameter.in,
+      required: parameter.in === 'path' || parameter.required,
+      schema: getParameterSchema(parameter),
+      description: describeParameter(parameter),
+    });
+  }
+
+  for (const [name, value] of Object.entries(operation.query ?? {})) {
+    parameters.push({ name, in: 'query', required: true, schema: { const: value } });
+  }
+  for (const [name, value] of Object.entries(operation.headers ?? {})) {
+    parameters.push({ name, in: 'header', required: true, schema: { const: value } });
+  }
+
+  return parameters;
+}
+
+/**
+ * Turn the generic authenticate of a credential into security schemes: headers and query
+ * parameters are API keys, `auth` is HTTP basic and a bearer Authorization header is HTTP
+ * bearer. Other credentials, like OAuth2, are only listed in x-n8n-credentials
+ */
+function buildSecuritySchemes(credential: CompleteCredentialDescription): OpenApiObject {
+  const schemes: OpenApiObject = {};
+  if (credential.authenticate?.type !== 'generic') return schemes;
+
+  const { headers, qs, auth } = credential.authenticate.properties as {
+    headers?: Record<string, unknown>;
+    qs?: Record<string, unknown>;
+    auth?: unknown;
+  };
+  const add = (scheme: OpenApiObject) => {
+    const count = Object.keys(schemes).length;
+    schemes[count === 0 ? credential.name : `${credential.name}_${count + 1}`] = scheme;
+  };
+
+  for (const [name, value] of Object.entries<unknown>(headers ?? {})) {
+    if (name.toLowerCase() === 'authorization' && /^=?\s*bearer\s/i.test(String(value))) {
+      add({ type: 'http', scheme: 'bearer' });
+    } else {
+      add({ type: 'apiKey', in: 'header', name });
+    }
+  }
+  for (const name of Object.keys(qs ?? {})) {
+    add({ type: 'apiKey', in: 'query', name });
+  }
+  if (auth) {
+    add({ type: 'http', scheme: 'basic' });
+  }
+  return schemes;
+}
+
+function toOperationId(node: CompleteNodeDescription, operation: RoutingOperation): string {
+  return [node.name.split('.').pop(), operation.resource, operation.operation]
+    .filter(part => part !== undefined)
+    .join('.')
+    .replace(/[^\w.-]/g, '_');
+}
+
+/**
+ * Build an OpenAPI 3.1 document of the requests the declarative nodes send, one tag per node.
+ * Every operation has its own server since nodes call different APIs, the same route on another
+ * server is keyed by its path followed by `#<server>` as OpenAPI has one operation per path and
+ * method. Programmatic nodes and operations without a URL are left out, see
+ * buildNodeOpenApiDocuments for a document per node
+ */
+export function buildOpenApiDocument(
+  title: string,
+  nodes: CompleteNodeDescription[],
+  credentials: CompleteCredentialDescription[] = []
+): OpenApiObject {
+  const paths: Record<string, Record<string, OpenApiObject>> = {};
+  const tags: OpenApiObject[] = [];
+  const securitySchemes: Record<string, OpenApiObject> = {};
+  const credentialSchemes = new Map<string, string[]>();
+  const operationServers = new Map<OpenApiObject, string | undefined>();
+
+  for (const credential of credentials) {
+    const schemes = buildSecuritySchemes(credential);
+    Object.assign(securitySchemes, schemes);
+    credentialSchemes.set(credential.name, Object.keys(schemes));
+  }
+
+  for (const node of nodes) {
+    const routing = node.__routing ?? buildRoutingMap(node);
+    if (!routing) continue;
+
+    const tag = `${node.displayName} (${node.name}), version ${getVersions(node).join(', ')}`;
+    tags.push({ name: tag, ...(node.description && { description: node.description }) });
+
+    for (const operation of routing.operations) {
+      const location = getServerAndPath(operation);
+      if (!location) continue;
+
+      const method = operation.method.toLowerCase();
+      const reference = {
+        node: node.name,
+        ...(operation.resource !== undefined && { resource: operation.resource }),
+        ...(operation.operation !== undefined && { operation: operation.operation }),
+      };
+      let key = location.path;
+      const sameRoute = paths[key]?.[method];
+      if (sameRoute && operationServers.get(sameRoute) !== location.server) {
+        key = `${location.path}#${location.server ?? ''}`;
+      }
+      if (!paths[key]) paths[key] = {};
+      const existing = paths[key][method];
+      // Operations sending the same request, e.g. with other query parameters, share one entry
+      if (existing) {
+        (existing['x-n8n-operations'] as OpenApiObject[]).push(reference);
+        continue;
+      }
+
+      const security = operation.credentials
+        .map(name => credentialSchemes.get(name) ?? [])
+        .filter(schemes => schemes.length > 0)
+        .map(schemes => Object.fromEntries(schemes.map(scheme => [scheme, []])));
+      const body = buildBodySchema(operation);
+
+      const entry: OpenApiObject = {
+        operationId: toOperationId(node, operation),
+        summary:
+          operation.action ??
+          ([operation.resource, operation.operation].filter(v => v !== undefined).join(' ') ||
+            node.displayName),
+        tags: [tag],
+        ...(location.server && { servers: [buildServer(location.server)] }),
+        parameters: buildParameters(operation, location.path),
+        ...(body && {
+          requestBody: { required: true, content: { 'application/json': { schema: body } } },
+        }),
+        responses: { default: { description: 'Response of the API' } },
+        ...(security.length > 0 && { security }),
+        'x-n8n-operations': [reference],
+        'x-n8n-credentials': operation.credentials,
+        ...(operation.variants && { 'x-n8n-variants': operation.variants }),
+      };
+      paths[key][method] = entry;
+      operationServers.set(entry, location.server);
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    // Nodes don't declare the version of the API they call
+    info: { title, version: 'unknown' },
+    tags,
+    paths,
+    ...(Object.keys(securitySchemes).length > 0 && { components: { securitySchemes } }),
+  };
+}
+
+/**
+ * Build one OpenAPI document per declarative node, keyed by node name. The versions of a node
+ * share its document, which only holds the credentials the node uses
+ */
+export function buildNodeOpenApiDocuments(
+  nodes: CompleteNodeDescription[],
+  credentials: CompleteCredentialDescription[] = []
+): Record<string, OpenApiObject> {
+  const nodesByName = new Map<string, CompleteNodeDescription[]>();
+  for (const node of nodes.filter(isDeclarativeNode)) {
+    nodesByName.set(node.name, [...(nodesByName.get(node.name) ?? []), node]);
+  }
+
+  const documents: Record<string, OpenApiObject> = {};
+  for (const [name, versions] of nodesByName) {
+    const used = new Set(versions.flatMap(node => (node.credentials || []).map(c => c.name)));
+    documents[name] = buildOpenApiDocument(
+      `${versions[0].displayName} (${name})`,
+      versions,
+      credentials.filter(credential => used.has(credential.name))
+    );
+  }
+  return documents;
+}
@@ -0,0 +1,206 @@
+import { CompleteNodeDescription } from '../types/node-description';
+import {
+  dependsOnlyOn,
+  getCollectionFields,
+  getCollectionGroups,
+  getParameterVariants,
+  getVersions,
+  isDisplayOnly,
+  isStringType,
+  NodeProperty,
+  ParameterVariant,
+} from '../analyzers/description-utils';
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function toPascalCase(value: string): string {
+  const pascal = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(pascal) ? `Node${pascal}` : pascal;
+}
+
+/**
+ * Name the parameters type of every node, e.g. FooParameters or FooV2Parameters for the
+ * implementations of a versioned node
+ */
+export function getParameterTypeNames(
+  nodes: CompleteNodeDescription[]
+): Map<CompleteNodeDescription, string> {
+  const names = new Map<CompleteNodeDescription, string>();
+  const used = new Set<string>();
+
+  for (const node of nodes) {
+    let base = toPascalCase(node.name.split('.').pop() || node.name);
+    if (node.__implementation) {
+      base += `V${String(node.__implementation.versions[0]).replace('.', '_')}`;
+    }
+
+    let name = `${base}Parameters`;
+    for (let index = 2; used.has(name); index++) {
+      name = `${base}Parameters${index}`;
+    }
+    used.add(name);
+    names.set(node, name);
+  }
+
+  return names;
+}
+
+function formatKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function formatDoc(
+  property: { displayName?: string; description?: string },
+  indent: string
+): string[] {
+  const text = (property.description || property.displayName || '').replace(/\*\//g, '*\\/');
+  if (!text) return [];
+  return [`${indent}/** ${text.replace(/\r?\n/g, ' ')} */`];
+}
+
+function withExpression(type: string, property: NodeProperty): string {
+  return property.noDataExpression ? type : `${type} | NodeParameterExpression`;
+}
+
+function getOptionUnion(property: NodeProperty): string {
+  const options = Array.isArray(property.options) ? property.options : [];
+  if (property.typeOptions?.loadOptionsMethod || options.length === 0) return 'string | number';
+  return [...new Set(options.map(option => JSON.stringify(option.value)))].join(' | ');
+}
+
+function renderPropertyType(property: NodeProperty, indent: string): string {
+  if (isStringType(property)) return 'string';
+
+  switch (property.type) {
+    case 'number':
+      return withExpression('number', property);
+    case 'boolean':
+      return withExpression('boolean', property);
+    case 'options':
+      return withExpression(getOptionUnion(property), property);
+    case 'multiOptions':
+      return withExpression(`Array<${getOptionUnion(property)}>`, property);
+    case 'resourceLocator':
+      return withExpression('ResourceLocatorValue', property);
+    case 'collection':
+      return renderObjectType(getCollectionFields(property), indent, true);
+    case 'fixedCollection': {
+      const groups = getCollectionGroups(property);
+      if (groups.length === 0) return 'Record<string, never>';
+      const lines = groups.flatMap(group => {
+        const values = renderObjectType(group.values || [], `${indent}  `, false);
+        const type = property.typeOptions?.multipleValues ? `Array<${values}>` : values;
+        return [
+          ...formatDoc(group, `${indent}  `),
+          `${indent}  ${formatKey(group.name)}?: ${type};`,
+        ];
+      });
+      return `{\n${lines.join('\n')}\n${indent}}`;
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Render an object type, properties with the same name (shown under different conditions)
+ * are merged into a union. Only properties whose displayOptions refer to nothing but the
+ * `known` parameters can be required, others may be hidden by values the type can't tell
+ */
+function renderObjectType(
+  properties: NodeProperty[],
+  indent: string,
+  allOptional: boolean,
+  known: string[] = []
+) {
+  const byName = new Map<string, NodeProperty[]>();
+  for (const property of properties.filter(p => !isDisplayOnly(p))) {
+    byName.set(property.name, [...(byName.get(property.name) || []), property]);
+  }
+  if (byName.size === 0) return 'Record<string, never>';
+
+  const lines: string[] = [];
+  for (const [name, variants] of byName) {
+    const types = [...new Set(variants.map(p => renderPropertyType(p, `${indent}  `)))];
+    const optional = allOptional || variants.some(p => !p.required || !dependsOnlyOn(p, known));
+    lines.push(...formatDoc(variants[0], `${indent}  `));
+    lines.push(`${indent}  ${formatKey(name)}${optional ? '?' : ''}: ${types.join(' | ')};`);
+  }
+
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function renderVariant(variant: ParameterVariant, indent: string): string {
+  // The discriminator can be left out when its value is the default, like n8n does when saving
+  const discriminators = variant.discriminators.map(({ property, value }) => {
+    const optional = property.default === value ? '?' : '';
+    return `${indent}  ${formatKey(property.name)}${optional}: ${JSON.stringify(value)};`;
+  });
+  const body = renderObjectType(
+    variant.properties,
+    indent,
+    false,
+    variant.discriminators.map(({ property }) => property.name)
+  );
+
+  if (discriminators.length === 0) return body;
+  if (body === 'Record<string, never>') return `{\n${discriminators.join('\n')}\n${indent}}`;
+  return `{\n${discriminators.join('\n')}\n${body.slice(2)}`;
+}
+
+function renderNode(node: CompleteNodeDescription, typeName: string): string {
+  const variants = getParameterVariants(node.properties || []);
+  const header = [
+    '/**',
+    ` * ${node.displayName} (${node.name}), version ${getVersions(node).join(', ')}`,
+    ' */',
+  ];
+
+  if (variants.length === 1) {
+    return [...header, `export type ${typeName} = ${renderVariant(variants[0], '')};`].join('\n');
+  }
+
+  const members = variants.map(variant => `  | ${renderVariant(variant, '    ')}`);
+  return [...header, `export type ${typeName} =`, `${members.join('\n')};`].join('\n');
+}
+
+/**
+ * Render a declaration file with the parameter types of every node of a package
+ */
+export function renderNodeTypes(packageName: string, nodes: CompleteNodeDescription[]): string {
+  const typeNames = getParameterTypeNames(nodes);
+
+  const byNodeType = new Map<string, string[]>();
+  for (const node of nodes) {
+    byNodeType.set(node.name, [...(byNodeType.get(node.name) || []), typeNames.get(node)!]);
+  }
+
+  const lines = [
+    `// Node parameter types of ${packageName}, generated by n8n-node-extractor`,
+    '',
+    "/** Any parameter can be an expression, e.g. '={{ $json.id }}' */",
+    'export type NodeParameterExpression = `=${string}`;',
+    '',
+    'export interface ResourceLocatorValue {',
+    '  __rl: true;',
+    '  mode: string;',
+    '  value: string | number;',
+    '  cachedResultName?: string;',
+    '  cachedResultUrl?: string;',
+    '}',
+    '',
+    ...nodes.flatMap(node => [renderNode(node, typeNames.get(node)!), '']),
+    '/** Parameters by node type */',
+    'export interface NodeParameters {',
+    ...[...byNodeType].map(
+      ([nodeType, names]) => `  ${JSON.stringify(nodeType)}: ${names.join(' | ')};`
+    ),
+    '}',
+  ];
+
+  return lines.join('\n') + '\n';
+}
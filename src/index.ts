@@ -1,6 +1,80 @@
 export { NodeExtractor } from './extractors/node-extractor';
 export { MultipleNodeExtractor } from './extractors/multiple-node-extractor';
-export { CompleteNodeDescription } from './types/node-description';
+export {
+  CompleteNodeDescription,
+  PackageExtractionResult,
+  PackageExtractionError,
+  PackageExtractionStatus,
+  DiagnosticCode,
+  ExtractionDiagnostic,
+  ExtractionEvent,
+  ExtractorConfig,
+  DependencyInstallScript,
+  SideEffect,
+  SideEffectKind,
+  SideEffectMode,
+  NodeRoutingMap,
+  RoutingOperation,
+  RoutingParameter,
+  RoutingTarget,
+  RoutingVariant,
+} from './types/node-description';
+export { Logger, silentLogger, consoleLogger, stderrLogger } from './utils/logger';
+export { DownloadError, IntegrityError } from './utils/download-utils';
+export { ExtractionCache, DEFAULT_CACHE_DIR } from './utils/cache-utils';
+export { DEFAULT_ALLOWED_INSTALL_SCRIPTS, findInstallScripts } from './utils/install-utils';
+export {
+  discoverCommunityPackages,
+  COMMUNITY_NODE_KEYWORD,
+  DiscoveryOptions,
+  DiscoveredPackage,
+} from './utils/discovery-utils';
+export {
+  diffNodeDescriptions,
+  formatNodeDiff,
+  NodeChange,
+  NodeChangeKind,
+  NodeDiffReport,
+} from './analyzers/node-diff';
+export {
+  lintNodeDescriptions,
+  formatLintReport,
+  LintIssue,
+  LintRule,
+  LintSeverity,
+  NodeLintReport,
+} from './analyzers/node-lint';
+export {
+  syncCatalog,
+  readCatalog,
+  writeCatalog,
+  Catalog,
+  CatalogEntry,
+  CatalogStatus,
+  CatalogSyncOptions,
+  CatalogSyncSummary,
+} from './catalog/catalog-sync';
+export {
+  checkN8nCompatibility,
+  formatCompatReport,
+  CompatReport,
+  CompatStatus,
+  CompatVersionResult,
+} from './compat/n8n-compat';
+export { createExtractionServer, ExtractionServerOptions } from './server/extraction-server';
+export {
+  ExtractionJobQueue,
+  ExtractionJob,
+  JobStatus,
+  JobQueueOptions,
+  QueueFullError,
+} from './server/job-queue';
+export { postWebhook, WebhookOptions, WebhookDelivery } from './utils/webhook-utils';
+export { renderPackageMarkdown, renderMarkdownIndex } from './generators/markdown';
+export { renderNodeTypes } from './generators/typescript';
+export { buildNodeJsonSchema } from './generators/json-schema';
+export { buildOpenApiDocument, buildNodeOpenApiDocuments } from './generators/openapi';
+export { buildRoutingMap, isDeclarativeNode } from './analyzers/node-routing';
 export { main } from './cli';
 
 // Allow usage as CLI
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { createExtractionServer } from './extraction-server';
+
+describe('POST /extract', () => {
+  let server: http.Server;
+  let url: string;
+
+  before(async () => {
+    server = createExtractionServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/extract`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const post = async (packages: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ packages }),
+    });
+    return { status: response.status, body: (await response.json()) as { error?: string } };
+  };
+
+  for (const spec of [
+    'n8n-nodes-foo@file:/etc',
+    'n8n-nodes-foo@git+https://example.com/foo.git',
+    'n8n-nodes-foo@http://example.com/foo.tgz',
+    'n8n-nodes-foo@npm:other@1.0.0',
+    './n8n-nodes-foo',
+  ]) {
+    it(`rejects ${spec}`, async () => {
+      const { status, body } = await post([spec]);
+      assert.equal(status, 400);
+      assert.equal(body.error, `Only registry packages can be extracted, got ${spec}`);
+    });
+  }
+});
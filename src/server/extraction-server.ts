@@ -0,0 +1,183 @@
+import * as http from 'http';
+import { ExtractorConfig } from '../types/node-description';
+import { ExtractionCache, getResultCacheOptions } from '../utils/cache-utils';
+import { parsePackageName, resolveN8nRelease } from '../utils/npm-utils';
+import { loadRegistryConfig } from '../utils/registry-utils';
+import { isValidWebhookUrl } from '../utils/webhook-utils';
+import { ExtractionJobQueue, JobQueueOptions, QueueFullError } from './job-queue';
+
+export interface ExtractionServerOptions extends JobQueueOptions {
+  // Required as a bearer token on every request when set
+  token?: string;
+}
+
+// Largest accepted request body
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const PACKAGE_NAME_PATTERN = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+const VERSION_PATTERN = /^\d[0-9A-Za-z.+-]*$/;
+// Versions, ranges (e.g. ^1.2.0 || 2.x) and dist-tags. Paths, URLs, git and npm: aliases all
+// contain a `:` or `/` and don't match
+const VERSION_RANGE_PATTERN = /^[0-9A-Za-z.*+\-^~<>=| ]+$/;
+
+class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function sendJson(response: http.ServerResponse, statusCode: number, body: unknown): void {
+  response.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+async function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Check that a package spec is a registry package name with an optional version, range or
+ * dist-tag
+ */
+function isRegistryPackageSpec(spec: string): boolean {
+  const { name, version } = parsePackageName(spec);
+  return PACKAGE_NAME_PATTERN.test(name) && VERSION_RANGE_PATTERN.test(version);
+}
+
+/**
+ * Read the package specs and webhook URL of a POST /extract body. Only registry packages are
+ * accepted, local paths and URLs would give callers access to the server's files and network
+ */
+function parseExtractRequest(body: unknown): { packages: string[]; webhookUrl?: string } {
+  const request = (body ?? {}) as { packages?: unknown; webhookUrl?: unknown };
+  const packages = typeof request.packages === 'string' ? [request.packages] : request.packages;
+  if (
+    !Array.isArray(packages) ||
+    packages.length === 0 ||
+    !packages.every((spec): spec is string => typeof spec === 'string' && spec.trim().length > 0)
+  ) {
+    throw new HttpError(400, '`packages` must be a package spec or a non-empty list of them');
+  }
+
+  const invalid = packages.find(spec => !isRegistryPackageSpec(spec.trim()));
+  if (invalid) {
+    throw new HttpError(400, `Only registry packages can be extracted, got ${invalid}`);
+  }
+
+  const webhookUrl = request.webhookUrl;
+  if (
+    webhookUrl !== undefined &&
+    (typeof webhookUrl !== 'string' || !isValidWebhookUrl(webhookUrl))
+  ) {
+    throw new HttpError(400, '`webhookUrl` must be an http(s) URL');
+  }
+
+  return { packages: packages.map(spec => spec.trim()), webhookUrl };
+}
+
+/**
+ * Split /packages/<name>/<version> into its name and version, scoped names can be written
+ * as @scope/name or @scope%2Fname. Anything that isn't a valid name and exact version is
+ * rejected, both end up in cache paths
+ */
+function parsePackagePath(pathname: string): { name: string; version: string } | null {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').slice(2).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  if (segments.length < 2) return null;
+
+  const version = segments.pop()!;
+  const name = segments.join('/');
+  return PACKAGE_NAME_PATTERN.test(name) && VERSION_PATTERN.test(version)
+    ? { name, version }
+    : null;
+}
+
+/**
+ * Create the HTTP server of the serve command:
+ * - POST /extract queues an extraction of `{ packages, webhookUrl? }` and returns the job id
+ * - GET /jobs/:id returns the status of a job, and its result once completed
+ * - GET /packages/:name/:version returns a cached result
+ */
+export function createExtractionServer(options: ExtractionServerOptions = {}): http.Server {
+  const config: ExtractorConfig = options.config ?? {};
+  const queue = new ExtractionJobQueue(options);
+  const cache = config.cacheDir ? new ExtractionCache(config.cacheDir) : undefined;
+
+  // Results of a pinned n8n dist-tag are cached under the release it points to
+  const getCacheOptions = async (): Promise<object> => {
+    if (!config.n8nVersion) return getResultCacheOptions(config);
+    const registry = await loadRegistryConfig(config.registry);
+    const { version } = await resolveN8nRelease(config.n8nVersion, registry);
+    return getResultCacheOptions({ ...config, n8nVersion: version });
+  };
+
+  const handle = async (request: http.IncomingMessage, response: http.ServerResponse) => {
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+
+    if (options.token && request.headers.authorization !== `Bearer ${options.token}`) {
+      throw new HttpError(401, 'Missing or invalid bearer token');
+    }
+
+    if (request.method === 'POST' && pathname === '/extract') {
+      const { packages, webhookUrl } = parseExtractRequest(await readJsonBody(request));
+      const job = queue.submit(packages, webhookUrl);
+      sendJson(response, 202, { id: job.id, status: job.status, url: `/jobs/${job.id}` });
+      return;
+    }
+
+    if (request.method === 'GET' && pathname.startsWith('/jobs/')) {
+      const job = queue.get(pathname.slice('/jobs/'.length));
+      if (!job) throw new HttpError(404, 'Job not found');
+      sendJson(response, 200, job);
+      return;
+    }
+
+    if (request.method === 'GET' && pathname.startsWith('/packages/')) {
+      const spec = parsePackagePath(pathname);
+      if (!spec) throw new HttpError(404, 'Expected /packages/<name>/<version>');
+
+      const result =
+        cache && (await cache.readResult(spec.name, spec.version, await getCacheOptions()));
+      if (!result) throw new HttpError(404, `No cached result for ${spec.name}@${spec.version}`);
+      sendJson(response, 200, result);
+      return;
+    }
+
+    throw new HttpError(404, 'Not found');
+  };
+
+  return http.createServer((request, response) => {
+    handle(request, response).catch(error => {
+      if (error instanceof HttpError) {
+        sendJson(response, error.statusCode, { error: error.message });
+      } else if (error instanceof QueueFullError) {
+        sendJson(response, 503, { error: error.message });
+      } else {
+        config.logger?.error(`❌ ${request.method} ${request.url} failed:`, error);
+        sendJson(response, 500, { error: 'Internal server error' });
+      }
+    });
+  });
+}
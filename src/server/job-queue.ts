@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { MultipleNodeExtractor } from '../extractors/multiple-node-extractor';
+import { ExtractorConfig, MultipleExtractionResult } from '../types/node-description';
+import { createLimiter } from '../utils/concurrency';
+import { silentLogger, withPrefix } from '../utils/logger';
+import { postWebhook, WebhookDelivery } from '../utils/webhook-utils';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ExtractionJob {
+  id: string;
+  status: JobStatus;
+  // Package specs as submitted
+  packages: string[];
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // Set when completed, in the multiple package result format. Packages that could not be
+  // extracted are marked failed in it, the job itself only fails when the extraction throws
+  result?: MultipleExtractionResult;
+  error?: string;
+  webhookUrl?: string;
+  webhook?: WebhookDelivery;
+}
+
+export interface JobQueueOptions {
+  config?: ExtractorConfig;
+  // Jobs running at the same time (default 2)
+  concurrency?: number;
+  // Jobs waiting to run, more are rejected (default 100)
+  maxQueued?: number;
+  // Finished jobs kept for GET /jobs/:id, the oldest are dropped first (default 1000)
+  maxFinished?: number;
+}
+
+export class QueueFullError extends Error {
+  constructor(readonly maxQueued: number) {
+    super(`The job queue is full (${maxQueued} jobs waiting)`);
+    this.name = 'QueueFullError';
+  }
+}
+
+/**
+ * Runs extraction jobs in the background with a limited number at the same time
+ */
+export class ExtractionJobQueue {
+  private jobs: Map<string, ExtractionJob> = new Map();
+  private limit: ReturnType<typeof createLimiter>;
+  private queued = 0;
+  private running = 0;
+  private config: ExtractorConfig;
+  private maxQueued: number;
+  private maxFinished: number;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.config = options.config ?? {};
+    this.limit = createLimiter(options.concurrency ?? 2);
+    this.maxQueued = options.maxQueued ?? 100;
+    this.maxFinished = options.maxFinished ?? 1000;
+  }
+
+  /**
+   * Queue an extraction of one or more packages, the webhook is called when it finishes
+   */
+  submit(packages: string[], webhookUrl?: string): ExtractionJob {
+    if (this.queued >= this.maxQueued) {
+      throw new QueueFullError(this.maxQueued);
+    }
+
+    const job: ExtractionJob = {
+      id: randomUUID(),
+      status: 'queued',
+      packages,
+      createdAt: new Date().toISOString(),
+      webhookUrl,
+    };
+    this.jobs.set(job.id, job);
+    this.queued++;
+    this.pruneFinished();
+
+    void this.limit(() => this.run(job));
+    return job;
+  }
+
+  get(id: string): ExtractionJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  getStats(): { queued: number; running: number } {
+    return { queued: this.queued, running: this.running };
+  }
+
+  private async run(job: ExtractionJob): Promise<void> {
+    const logger = withPrefix(this.config.logger ?? silentLogger, `[${job.id.slice(0, 8)}]`);
+    this.queued--;
+    this.running++;
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    logger.info(`🚀 Extracting ${job.packages.join(', ')}`);
+
+    try {
+      const extractor = new MultipleNodeExtractor({ ...this.config, logger });
+      await extractor.extract(job.packages);
+      job.result = extractor.getResults();
+      job.status = 'completed';
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : String(error);
+      job.status = 'failed';
+    } finally {
+      this.running--;
+      job.finishedAt = new Date().toISOString();
+    }
+    logger.info(`${job.status === 'completed' ? '✅' : '❌'} Job ${job.status}`);
+
+    if (job.webhookUrl) {
+      // Same payloads as the node-extraction workflow
+      const body =
+        job.status === 'completed'
+          ? { jobId: job.id, ...job.result }
+          : { error: true, jobId: job.id, message: `Node extraction failed: ${job.error}` };
+      job.webhook = await postWebhook(job.webhookUrl, body, { logger });
+      if (!job.webhook.delivered) {
+        logger.warn(`❌ Could not deliver the result to ${job.webhookUrl}`);
+      }
+    }
+  }
+
+  /**
+   * Drop the oldest finished jobs beyond the retention limit
+   */
+  private pruneFinished(): void {
+    const finished = [...this.jobs.values()].filter(
+      job => job.status === 'completed' || job.status === 'failed'
+    );
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.maxFinished))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
@@ -1,43 +1,59 @@
+import type { RegistryConfig } from '../utils/registry-utils';
+import type { Logger } from '../utils/logger';
+
+/**
+ * A value that can differ between the light and dark theme, like n8n's Themed<T>
+ */
+export type Themed<T> = T | { light: T; dark: T };
+
 export interface CompleteNodeDescription {
   displayName: string;
   name: string;
+  // Font Awesome (fa:) or n8n built-in (node:) icon, file icons are output as iconUrl
   icon?: string;
-  iconUrl?: string;
+  iconUrl?: Themed<string>;
+  iconColor?: string;
   group: string[];
   version: number | number[];
+  // Version used for new nodes, set for VersionedNodeType nodes
+  defaultVersion?: number;
   description: string;
   usableAsTool?: boolean;
-  defaults: Record<string, any>;
+  defaults: Record<string, unknown>;
   inputs: string[];
   outputs: string[];
   credentials?: Array<{
     name: string;
     required?: boolean;
     displayOptions?: {
-      show?: Record<string, any>;
-      hide?: Record<string, any>;
+      show?: Record<string, unknown>;
+      hide?: Record<string, unknown>;
     };
   }>;
   properties: Array<{
     displayName: string;
     name: string;
     type: string;
-    default?: any;
+    default?: unknown;
     description?: string;
     options?: Array<{
       name: string;
       value: string | number | boolean;
       description?: string;
       action?: string;
+      // Request of declarative nodes, e.g. the method and URL of an operation
+      routing?: Record<string, unknown>;
     }>;
     required?: boolean;
     displayOptions?: {
-      show?: Record<string, any>;
-      hide?: Record<string, any>;
+      show?: Record<string, unknown>;
+      hide?: Record<string, unknown>;
     };
     placeholder?: string;
-    typeOptions?: Record<string, any>;
+    typeOptions?: Record<string, unknown>;
     noDataExpression?: boolean;
+    // How declarative nodes send the parameter value, e.g. as a query parameter
+    routing?: Record<string, unknown>;
   }>;
   webhooks?: Array<{
     name: string;
@@ -48,7 +64,20 @@ export interface CompleteNodeDescription {
   polling?: boolean;
   subtitle?: string;
   aiNodeSdkVersion?: number;
+  // Request options shared by the operations of declarative nodes, e.g. the baseURL
+  requestDefaults?: Record<string, unknown>;
   __loadOptionsMethods?: string[];
+  // Set when the description was read from source instead of running the node
+  __extractionBackend?: ExtractionBackend;
+  // Side effects of loading the file and creating the node, only set when they are audited
+  __sideEffects?: SideEffect[];
+  // Requests of declarative nodes per resource and operation, resolved from their routing
+  __routing?: NodeRoutingMap;
+  // VersionedNodeType only: the class handling this description and the versions it covers
+  __implementation?: {
+    className: string;
+    versions: number[];
+  };
   codex?: {
     categories?: string[];
     subcategories?: Record<string, string[]>;
@@ -65,16 +94,284 @@ export interface CompleteNodeDescription {
   };
 }
 
+export interface CompleteCredentialDescription {
+  name: string;
+  displayName: string;
+  icon?: string;
+  iconUrl?: Themed<string>;
+  iconColor?: string;
+  extends?: string[];
+  documentationUrl?: string;
+  properties: CompleteNodeDescription['properties'];
+  authenticate?: {
+    type: string;
+    properties: Record<string, unknown>;
+  };
+  test?: {
+    request: Record<string, unknown>;
+    rules?: Array<Record<string, unknown>>;
+  };
+  genericAuth?: boolean;
+  supportedNodes?: string[];
+  __sideEffects?: SideEffect[];
+}
+
+/**
+ * Description as read from a node class, passed through as it is. Nothing is validated, so
+ * every field can be missing and icons can be anything
+ */
+export type RawNodeDescription = Partial<Omit<CompleteNodeDescription, 'icon' | 'iconUrl'>> & {
+  icon?: unknown;
+  iconUrl?: unknown;
+};
+
+/**
+ * Credential type as read from a credential class, like RawNodeDescription
+ */
+export type RawCredentialDescription = Partial<
+  Omit<CompleteCredentialDescription, 'icon' | 'iconUrl'>
+> & {
+  icon?: unknown;
+  iconUrl?: unknown;
+};
+
+/**
+ * How node and credential files are read:
+ * - require: load the file in an isolated worker and read the class instance
+ * - static: parse the source and rebuild the object literals without running anything,
+ *   values that can't be resolved are output as `{ "__unresolved": "<source text>" }`
+ */
+export type ExtractionBackend = 'require' | 'static';
+
+/**
+ * Where a declarative node puts a value in its request:
+ * - path: a {name} placeholder of the URL
+ * - query, body, header: a query parameter, body field or header named `property`
+ */
+export type RoutingTarget = 'path' | 'query' | 'body' | 'header';
+
+export interface RoutingParameter {
+  // Node parameter the value comes from, nested collection fields are joined with dots
+  parameter: string;
+  in: RoutingTarget;
+  // Name in the request, dot separated for nested body fields
+  property: string;
+  // n8n parameter type, e.g. string or options
+  type: string;
+  required: boolean;
+  // Expression computing the sent value, when it isn't the parameter value itself
+  value?: string;
+}
+
+export interface RoutingVariant {
+  // Optional parameter whose routing.request changes the request when it is set
+  parameter: string;
+  method?: string;
+  baseURL?: string;
+  path?: string;
+}
+
+export interface RoutingOperation {
+  // Resource and operation values selecting this request, missing when the node has none
+  resource?: string | number | boolean;
+  operation?: string | number | boolean;
+  // Action text of the operation, e.g. "Create a user"
+  action?: string;
+  method: string;
+  // Base URL from requestDefaults or the operation, may contain {placeholders}
+  baseURL?: string;
+  // URL path with {placeholders} for parameters, undefined when no URL is set
+  path?: string;
+  parameters: RoutingParameter[];
+  // Fixed query parameters, body fields and headers, expressions are kept as they are
+  query?: Record<string, unknown>;
+  body?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  // Credentials shown for this resource and operation
+  credentials: string[];
+  // routing.output of the operation, e.g. postReceive actions
+  output?: Record<string, unknown>;
+  // Other methods or URLs used when optional parameters are set
+  variants?: RoutingVariant[];
+}
+
+export interface NodeRoutingMap {
+  operations: RoutingOperation[];
+}
+
+/**
+ * What is done about side effects of node and credential files while they are loaded and
+ * instantiated by the require backend:
+ * - off: nothing is recorded
+ * - audit: filesystem, network, child process and environment access is recorded
+ * - block: the same access is recorded and fails, environment variables read as undefined
+ */
+export type SideEffectMode = 'off' | 'audit' | 'block';
+
+export type SideEffectKind = 'fs' | 'network' | 'process' | 'env';
+
+export interface SideEffect {
+  kind: SideEffectKind;
+  // Function or access that was used, e.g. readFileSync, http.request, spawn or get
+  operation: string;
+  // File path, host, command or environment variable, `*` for listing all variables
+  target?: string;
+  // Set when the access was blocked
+  blocked?: boolean;
+}
+
+/**
+ * What to do with icon files referenced by iconUrl:
+ * - reference: only output the icons/<package>/... paths
+ * - copy: copy the icon files to the output directory at those paths
+ * - inline: replace iconUrl with a data URI
+ */
+export type IconMode = 'reference' | 'copy' | 'inline';
+
+/**
+ * Formats the descriptions can be rendered in besides JSON:
+ * - markdown: documentation pages
+ * - typescript: declaration file with the parameter types of every node
+ * - json-schema: JSON Schema of the parameters of every node
+ * - openapi: OpenAPI document of the requests declarative nodes send
+ */
+export type DocumentFormat = 'markdown' | 'typescript' | 'json-schema' | 'openapi';
+
+export interface UnresolvedValue {
+  __unresolved: string;
+}
+
 export interface PackageInfo {
   name: string;
   version: string;
-  dist: { tarball: string };
+  dist: {
+    tarball: string;
+    // Subresource Integrity string, e.g. sha512-<base64>
+    integrity?: string;
+    // sha1 hex digest, used by older packages without integrity
+    shasum?: string;
+  };
+  // Deprecation message set with npm deprecate
+  deprecated?: string;
+  dependencies?: Record<string, string>;
 }
 
 export interface ExtractorConfig {
   tempDir?: string;
   outputDir?: string;
   verbose?: boolean;
+  // `auto` uses `require` and falls back to `static` when loading a file fails (default: require)
+  backend?: ExtractionBackend | 'auto';
+  // Wall-clock limit for loading a single node or credential file (default 10000)
+  loadTimeoutMs?: number;
+  // Heap limit for the worker that loads a node or credential file (default 512)
+  loadMemoryLimitMb?: number;
+  // Number of node or credential files loaded at the same time (default: CPU count)
+  loadConcurrency?: number;
+  // Registries and credentials, merged on top of ~/.npmrc and ./.npmrc
+  registry?: RegistryConfig;
+  // Export referenced icon files (default: reference)
+  icons?: IconMode;
+  // Persistent cache for the n8n runtime, tarballs and results, no caching when not set
+  cacheDir?: string;
+  // Number of packages installed at the same time when the combined install fails (default: 4)
+  installConcurrency?: number;
+  // n8n release (version or dist-tag) whose n8n-workflow and n8n-core versions nodes are loaded
+  // with. When not set they follow the package's peerDependencies, or the latest versions
+  n8nVersion?: string;
+  // Install dependencies without their install scripts, in a clean environment (default: false)
+  safeInstall?: boolean;
+  // Packages whose install scripts still run with safeInstall, e.g. native addons
+  // (default: isolated-vm, sqlite3, better-sqlite3, sharp, bcrypt and canvas)
+  allowScripts?: string[];
+  // Record or block filesystem, network, process and environment access of node files while
+  // they are loaded (default: off)
+  sideEffects?: SideEffectMode;
+  // Receives progress and error messages, nothing is logged when not set
+  logger?: Logger;
+  // Called as packages are resolved, downloaded and installed and as files are extracted
+  onProgress?: (event: ExtractionEvent) => void;
+}
+
+/**
+ * Progress of an extraction. node-failed is sent for node and credential files, package-failed
+ * for packages that could not be downloaded or installed. node-extracted and
+ * credential-extracted hold the description as read from the file, package-extracted the final
+ * descriptions of the package with inlined icons and linked supported nodes. Packages served
+ * from the result cache only send package-extracted
+ */
+export type ExtractionEvent =
+  | { type: 'package-resolved'; packageName: string; version: string }
+  | { type: 'package-downloaded'; packageName: string; version: string }
+  | { type: 'package-installed'; packageName: string }
+  | {
+      type: 'package-extracted';
+      packageName: string;
+      nodes: number;
+      cached: boolean;
+      descriptions: CompleteNodeDescription[];
+      credentials: CompleteCredentialDescription[];
+    }
+  | { type: 'package-failed'; packageName: string; diagnostic: ExtractionDiagnostic }
+  | {
+      type: 'node-extracted';
+      packageName: string;
+      node: string;
+      displayName: string;
+      description: CompleteNodeDescription;
+    }
+  | {
+      type: 'credential-extracted';
+      packageName: string;
+      credential: string;
+      description: CompleteCredentialDescription;
+    }
+  | { type: 'node-failed'; packageName: string; diagnostic: ExtractionDiagnostic };
+
+/**
+ * Why a declared node or credential, or a whole package, is missing from the result:
+ * - file-not-found: no file for the declared path
+ * - no-node-class: the file doesn't export a node or credential class
+ * - no-description: the class has no description, or one without a name
+ * - load-error: loading the file threw, or the worker crashed or ran out of memory
+ * - timeout: loading the file took longer than the load timeout
+ * - install-failed: npm install of the package failed
+ * - download-failed: the package or its metadata could not be downloaded
+ */
+export type DiagnosticCode =
+  | 'file-not-found'
+  | 'no-node-class'
+  | 'no-description'
+  | 'load-error'
+  | 'timeout'
+  | 'install-failed'
+  | 'download-failed';
+
+export interface ExtractionDiagnostic {
+  code: DiagnosticCode;
+  packageName: string;
+  // Missing for package level diagnostics
+  kind?: 'node' | 'credential';
+  // Path from the n8n section of the package.json
+  declaredPath?: string;
+  // Files tried for the declared path, relative to the package
+  triedPaths?: string[];
+  message: string;
+  stack?: string;
+  // Side effects recorded before loading the file failed, e.g. the one that was blocked
+  sideEffects?: SideEffect[];
+}
+
+/**
+ * Installed dependency that declares install scripts, reported by the safe install mode
+ */
+export interface DependencyInstallScript {
+  name: string;
+  version: string;
+  // Lifecycle scripts, e.g. { install: 'node-gyp rebuild' } for a native addon with a binding.gyp
+  scripts: Record<string, string>;
+  // Run because the dependency is allowed to, the scripts of the others were skipped
+  ran: boolean;
 }
 
 export interface ExtractionResult<T = CompleteNodeDescription> {
@@ -82,4 +379,44 @@ export interface ExtractionResult<T = CompleteNodeDescription> {
   totalNodes: number;
   format: string;
   nodes: T[];
+  credentials?: CompleteCredentialDescription[];
+  // Icon URLs whose file could not be found in the package
+  missingIcons?: string[];
+  // Nodes, credentials or packages that could not be extracted, empty when nothing is missing
+  diagnostics: ExtractionDiagnostic[];
+  // Dependencies with install scripts, only set by the safe install mode when no package came
+  // from the result cache
+  installScripts?: DependencyInstallScript[];
+}
+
+export type PackageExtractionStatus = 'ok' | 'failed';
+
+export interface PackageExtractionError {
+  // Step that failed
+  stage: 'resolve' | 'install' | 'extract';
+  message: string;
+  // End of the npm output for install failures
+  details?: string;
+}
+
+export interface PackageExtractionResult {
+  status: PackageExtractionStatus;
+  // Resolved version, or the requested version spec
+  version?: string;
+  nodes: CompleteNodeDescription[];
+  error?: PackageExtractionError;
+}
+
+export interface MultipleExtractionResult {
+  extractedAt: string;
+  totalPackages: number;
+  failedPackages: number;
+  totalNodes: number;
+  format: string;
+  // Every requested package, keyed by package name
+  packages: Record<string, PackageExtractionResult>;
+  credentials: Record<string, CompleteCredentialDescription[]>;
+  missingIcons?: string[];
+  diagnostics: ExtractionDiagnostic[];
+  installScripts?: DependencyInstallScript[];
 }
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import {
+  ExtractionCache,
+  getExtractorVersion,
+  getResultCacheOptions,
+  RESULT_CACHE_SCHEMA_VERSION,
+} from './cache-utils';
+
+const RESULT = {
+  packageName: 'n8n-nodes-foo',
+  version: '1.0.0',
+  nodes: [],
+  credentials: [],
+  missingIcons: [],
+  diagnostics: [],
+};
+
+describe('ExtractionCache results', () => {
+  let cache: ExtractionCache;
+
+  before(async () => {
+    cache = new ExtractionCache(await fs.mkdtemp(path.join(os.tmpdir(), 'cache-test-')));
+  });
+
+  after(() => fs.rm(cache.directory, { recursive: true, force: true }));
+
+  it('reads a result written with the same options', async () => {
+    const options = getResultCacheOptions({ backend: 'static' });
+    await cache.writeResult(RESULT, options);
+
+    const cached = await cache.readResult('n8n-nodes-foo', '1.0.0', options);
+    assert.equal(cached?.packageName, 'n8n-nodes-foo');
+  });
+
+  it('keys results by the extractor and schema version', async () => {
+    const files = await fs.readdir(path.join(cache.directory, 'results', 'n8n-nodes-foo', '1.0.0'));
+
+    const prefix = `${getExtractorVersion()}-v${RESULT_CACHE_SCHEMA_VERSION}-`;
+    assert.ok(files.length > 0);
+    assert.ok(files.every(file => file.startsWith(prefix)));
+  });
+
+  it('keeps audited results apart from unaudited ones', async () => {
+    await cache.writeResult(RESULT, getResultCacheOptions({}));
+
+    for (const sideEffects of ['audit', 'block'] as const) {
+      const options = getResultCacheOptions({ sideEffects });
+      assert.equal(await cache.readResult('n8n-nodes-foo', '1.0.0', options), null);
+    }
+    assert.deepEqual(getResultCacheOptions({ sideEffects: 'off' }), getResultCacheOptions({}));
+  });
+});
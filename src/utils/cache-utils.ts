@@ -0,0 +1,226 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CompleteCredentialDescription,
+  CompleteNodeDescription,
+  ExtractionDiagnostic,
+  ExtractorConfig,
+  PackageInfo,
+} from '../types/node-description';
+import { writeFileAtomic } from './file-utils';
+
+export const DEFAULT_CACHE_DIR = path.join(
+  process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'),
+  'n8n-node-extractor'
+);
+
+/**
+ * What the cache keeps:
+ * - runtime: installs of n8n-workflow and n8n-core, keyed by their versions
+ * - tarballs: downloaded package tarballs, keyed by integrity
+ * - results: extraction results, keyed by package@version, extractor and schema version and
+ *   options
+ * - npm: npm's own cache for safe installs, which don't use the user's
+ */
+export type CacheKind = 'runtime' | 'tarballs' | 'results' | 'npm';
+
+export const CACHE_KINDS: CacheKind[] = ['runtime', 'tarballs', 'results', 'npm'];
+
+// Version of the cached result shape, bump it whenever the extracted descriptions change so
+// results cached by an older build of the same release aren't used
+export const RESULT_CACHE_SCHEMA_VERSION = 2;
+
+export interface CachedResult {
+  packageName: string;
+  version: string;
+  extractorVersion: string;
+  cachedAt: string;
+  nodes: CompleteNodeDescription[];
+  credentials: CompleteCredentialDescription[];
+  missingIcons: string[];
+  diagnostics: ExtractionDiagnostic[];
+}
+
+let extractorVersion: string | undefined;
+
+/**
+ * Get the version of this extractor, cached results of other versions are not used
+ */
+export function getExtractorVersion(): string {
+  if (!extractorVersion) {
+    // Same relative location from src/utils and dist/utils
+    const packageJsonPath = path.join(__dirname, '..', '..', 'package.json');
+    extractorVersion = JSON.parse(readFileSync(packageJsonPath, 'utf8')).version as string;
+  }
+  return extractorVersion;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Extraction options that change the result, part of the result cache key. The n8n version has
+ * to be the exact release, see resolveN8nRelease
+ */
+export function getResultCacheOptions(config: ExtractorConfig): object {
+  return {
+    backend: config.backend || 'require',
+    icons: config.icons || 'reference',
+    // Left out when not pinned so existing cache entries still match
+    ...(config.n8nVersion && { n8nVersion: config.n8nVersion }),
+    ...(config.sideEffects && config.sideEffects !== 'off' && { sideEffects: config.sideEffects }),
+  };
+}
+
+/**
+ * Build a file name from the strongest hash of a tarball's dist info, null without one
+ */
+function getTarballKey(dist: PackageInfo['dist']): string | null {
+  const sri = dist.integrity
+    ?.split(/\s+/)
+    .map(entry => entry.split('?')[0])
+    .find(entry => entry.startsWith('sha512-'));
+
+  if (sri) {
+    return `sha512-${Buffer.from(sri.slice('sha512-'.length), 'base64').toString('hex')}`;
+  }
+  return dist.shasum ? `sha1-${dist.shasum.toLowerCase()}` : null;
+}
+
+/**
+ * Persistent cache shared by extraction runs
+ */
+export class ExtractionCache {
+  constructor(readonly directory: string = DEFAULT_CACHE_DIR) {}
+
+  private getPath(kind: CacheKind, ...parts: string[]): string {
+    return path.join(this.directory, kind, ...parts);
+  }
+
+  private getResultPath(packageName: string, version: string, options: object): string {
+    const optionsHash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(options))
+      .digest('hex')
+      .slice(0, 12);
+    return this.getPath(
+      'results',
+      packageName,
+      version,
+      `${getExtractorVersion()}-v${RESULT_CACHE_SCHEMA_VERSION}-${optionsHash}.json`
+    );
+  }
+
+  /**
+   * Get the cached result of a package version extracted with the same options
+   */
+  async readResult(
+    packageName: string,
+    version: string,
+    options: object
+  ): Promise<CachedResult | null> {
+    try {
+      const content = await fs.readFile(this.getResultPath(packageName, version, options), 'utf8');
+      return JSON.parse(content) as CachedResult;
+    } catch {
+      return null;
+    }
+  }
+
+  async writeResult(
+    result: Omit<CachedResult, 'extractorVersion' | 'cachedAt'>,
+    options: object
+  ): Promise<void> {
+    const data: CachedResult = {
+      ...result,
+      extractorVersion: getExtractorVersion(),
+      cachedAt: new Date().toISOString(),
+    };
+    await writeFileAtomic(
+      this.getResultPath(result.packageName, result.version, options),
+      JSON.stringify(data)
+    );
+  }
+
+  /**
+   * Get the cached tarball matching a package's dist info
+   */
+  async getTarball(dist: PackageInfo['dist']): Promise<string | null> {
+    const key = getTarballKey(dist);
+    if (!key) return null;
+
+    const tarballPath = this.getPath('tarballs', `${key}.tgz`);
+    return (await exists(tarballPath)) ? tarballPath : null;
+  }
+
+  /**
+   * Keep a verified tarball, tarballs without integrity information are not cached
+   */
+  async storeTarball(dist: PackageInfo['dist'], filePath: string): Promise<void> {
+    const key = getTarballKey(dist);
+    if (!key) return;
+
+    const tarballPath = this.getPath('tarballs', `${key}.tgz`);
+    await fs.mkdir(path.dirname(tarballPath), { recursive: true });
+    const tempPath = `${tarballPath}.${process.pid}-${Date.now()}.tmp`;
+    await fs.copyFile(filePath, tempPath);
+    await fs.rename(tempPath, tarballPath);
+  }
+
+  /**
+   * Get the node_modules folder of a runtime install, installing it on first use. Installs go
+   * to a temporary folder that is renamed when complete, so a failed or concurrent install
+   * never leaves a broken entry
+   */
+  async getRuntime(
+    versions: Record<string, string>,
+    install: (directory: string) => Promise<void>
+  ): Promise<{ modulesPath: string; cached: boolean }> {
+    const key = Object.entries(versions)
+      .map(([name, version]) => `${name}@${version}`)
+      .join('+');
+    const runtimePath = this.getPath('runtime', key);
+    const modulesPath = path.join(runtimePath, 'node_modules');
+
+    if (await exists(modulesPath)) {
+      return { modulesPath, cached: true };
+    }
+
+    const tempPath = `${runtimePath}.${process.pid}-${Date.now()}.tmp`;
+    await fs.mkdir(tempPath, { recursive: true });
+    try {
+      await install(tempPath);
+      await fs.rename(tempPath, runtimePath);
+    } catch (error) {
+      await fs.rm(tempPath, { recursive: true, force: true });
+      // Another run finished the same install first
+      if (await exists(modulesPath)) return { modulesPath, cached: true };
+      throw error;
+    }
+
+    return { modulesPath, cached: false };
+  }
+
+  /**
+   * Get the npm cache folder used by safe installs
+   */
+  getNpmCacheDir(): string {
+    return this.getPath('npm');
+  }
+
+  /**
+   * Remove everything, or only one kind of entry, from the cache
+   */
+  async clean(kind?: CacheKind): Promise<void> {
+    await fs.rm(kind ? this.getPath(kind) : this.directory, { recursive: true, force: true });
+  }
+}
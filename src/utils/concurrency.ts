@@ -0,0 +1,28 @@
+/**
+ * Create a limiter that runs at most `concurrency` tasks at the same time
+ */
+export function createLimiter(concurrency: number) {
+  const limit = Math.max(1, concurrency);
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= limit || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return function run<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+  };
+}
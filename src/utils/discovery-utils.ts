@@ -0,0 +1,89 @@
+import { DownloadError } from './download-utils';
+import { DEFAULT_REGISTRY, getAuthHeaders, ResolvedRegistryConfig } from './registry-utils';
+
+// Keyword n8n requires community node packages to have
+export const COMMUNITY_NODE_KEYWORD = 'n8n-community-node-package';
+
+// Largest page the npm search API returns
+const MAX_PAGE_SIZE = 250;
+
+export interface DiscoveryOptions {
+  keyword?: string;
+  // Package name patterns, * matches anything, e.g. @n8n-community/* or n8n-nodes-*
+  include?: string[];
+  exclude?: string[];
+  // Stop after this many packages
+  maxPackages?: number;
+  pageSize?: number;
+  registry?: ResolvedRegistryConfig;
+}
+
+export interface DiscoveredPackage {
+  name: string;
+  version: string;
+  description?: string;
+  // Publish date of the version
+  date?: string;
+}
+
+interface SearchResponse {
+  total: number;
+  objects: Array<{
+    package: DiscoveredPackage & { keywords?: string[] };
+  }>;
+}
+
+function toPattern(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+function matchesAny(name: string, patterns: RegExp[]): boolean {
+  return patterns.some(pattern => pattern.test(name));
+}
+
+/**
+ * Find community node packages through the registry search API, page by page
+ */
+export async function discoverCommunityPackages(
+  options: DiscoveryOptions = {}
+): Promise<DiscoveredPackage[]> {
+  const keyword = options.keyword || COMMUNITY_NODE_KEYWORD;
+  const pageSize = Math.min(options.pageSize || MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+  const maxPackages = options.maxPackages ?? Infinity;
+  const include = (options.include || []).map(toPattern);
+  const exclude = (options.exclude || []).map(toPattern);
+  const registryUrl = options.registry?.registry || DEFAULT_REGISTRY;
+
+  const packages = new Map<string, DiscoveredPackage>();
+  let from = 0;
+
+  while (packages.size < maxPackages) {
+    const url = `${registryUrl}-/v1/search?text=${encodeURIComponent(`keywords:${keyword}`)}&size=${pageSize}&from=${from}`;
+    const response = await fetch(url, { headers: getAuthHeaders(url, options.registry) });
+    if (!response.ok) {
+      throw new DownloadError(`Registry search failed (${response.status})`, url, response.status);
+    }
+
+    const page = (await response.json()) as SearchResponse;
+    for (const { package: pkg } of page.objects) {
+      // Registries that don't support the keywords: qualifier do a plain text search
+      if (pkg.keywords && !pkg.keywords.includes(keyword)) continue;
+      if (include.length > 0 && !matchesAny(pkg.name, include)) continue;
+      if (matchesAny(pkg.name, exclude)) continue;
+      if (packages.size >= maxPackages) break;
+
+      packages.set(pkg.name, {
+        name: pkg.name,
+        version: pkg.version,
+        description: pkg.description,
+        date: pkg.date,
+      });
+    }
+
+    from += page.objects.length;
+    if (page.objects.length === 0 || from >= page.total) break;
+  }
+
+  return [...packages.values()];
+}
@@ -1,37 +1,222 @@
+import * as http from 'http';
 import * as https from 'https';
-import { createWriteStream } from 'fs';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { pipeline } from 'stream/promises';
 import * as tar from 'tar';
 import { PackageInfo } from '../types/node-description';
+import { getAuthHeaders, getRegistryUrl, ResolvedRegistryConfig } from './registry-utils';
+import { Logger, silentLogger } from './logger';
+import type { ExtractionCache } from './cache-utils';
+
+export class DownloadError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+export class IntegrityError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly expected: string,
+    public readonly actual: string
+  ) {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
+
+export interface DownloadOptions {
+  headers?: Record<string, string>;
+  // Extra attempts after the first one for network errors, 5xx and 429 responses (default 3)
+  retries?: number;
+  // Delay before the first retry, doubled for every following retry (default 500)
+  retryDelayMs?: number;
+  maxRedirects?: number;
+  timeoutMs?: number;
+  // Told about retries, silent when not set
+  logger?: Logger;
+}
+
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
 
 /**
- * Download a file from URL to local destination
+ * Open a GET request, following redirects. Auth headers are only sent to the original host.
  */
-export async function downloadFile(url: string, destination: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const file = createWriteStream(destination);
-    https
-      .get(url, response => {
-        response.pipe(file);
-        file.on('finish', () => {
-          file.close();
-          resolve();
-        });
-      })
-      .on('error', reject);
+async function openDownload(
+  url: string,
+  headers: Record<string, string>,
+  redirectsLeft: number,
+  timeoutMs: number
+): Promise<http.IncomingMessage> {
+  const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+    // Self-hosted registries like Verdaccio are often served over plain http
+    const client = url.startsWith('http:') ? http : https;
+    const request = client.get(url, { headers }, resolve);
+    request.setTimeout(timeoutMs, () => {
+      request.destroy(new DownloadError(`Request timed out after ${timeoutMs}ms`, url));
+    });
+    request.on('error', reject);
   });
+
+  const statusCode = response.statusCode ?? 0;
+
+  if (REDIRECT_STATUS_CODES.includes(statusCode) && response.headers.location) {
+    response.resume();
+    if (redirectsLeft <= 0) {
+      throw new DownloadError(`Too many redirects`, url, statusCode);
+    }
+    const location = new URL(response.headers.location, url);
+    const sameHost = location.host === new URL(url).host;
+    const publicHeaders = Object.fromEntries(
+      Object.entries(headers).filter(([name]) => name.toLowerCase() !== 'authorization')
+    );
+    return openDownload(
+      location.toString(),
+      sameHost ? headers : publicHeaders,
+      redirectsLeft - 1,
+      timeoutMs
+    );
+  }
+
+  if (statusCode < 200 || statusCode >= 300) {
+    response.resume();
+    throw new DownloadError(`Download failed with HTTP ${statusCode}`, url, statusCode);
+  }
+
+  return response;
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof DownloadError) {
+    return error.statusCode === undefined || RETRYABLE_STATUS_CODES.includes(error.statusCode);
+  }
+  // Network errors (ECONNRESET, ETIMEDOUT, ...)
+  return true;
+}
+
+/**
+ * Download a file from URL to local destination, with redirects, status checks and retries
+ */
+export async function downloadFile(
+  url: string,
+  destination: string,
+  options: DownloadOptions = {}
+): Promise<void> {
+  const retries = options.retries ?? 3;
+  const retryDelayMs = options.retryDelayMs ?? 500;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await openDownload(
+        url,
+        options.headers ?? {},
+        options.maxRedirects ?? 5,
+        options.timeoutMs ?? 60000
+      );
+      await pipeline(response, createWriteStream(destination));
+      return;
+    } catch (error) {
+      // Never leave a partial download behind
+      await fs.rm(destination, { force: true });
+
+      if (attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delay = retryDelayMs * 2 ** attempt;
+      (options.logger ?? silentLogger).warn(
+        `⚠️  Download failed (${error instanceof Error ? error.message : String(error)}), retrying in ${delay}ms...`
+      );
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+async function hashFile(filePath: string, algorithm: string, encoding: 'base64' | 'hex') {
+  const hash = createHash(algorithm);
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest(encoding);
+}
+
+// Strongest first, like npm's ssri
+const SRI_ALGORITHMS = ['sha512', 'sha384', 'sha256', 'sha1'];
+
+/**
+ * Verify a downloaded tarball against the registry's dist.integrity (SRI) or dist.shasum (sha1)
+ */
+export async function verifyIntegrity(
+  filePath: string,
+  dist: PackageInfo['dist']
+): Promise<boolean> {
+  if (dist.integrity) {
+    const hashes = dist.integrity
+      .split(/\s+/)
+      .map(entry => {
+        const separator = entry.indexOf('-');
+        return { algorithm: entry.slice(0, separator), digest: entry.slice(separator + 1) };
+      })
+      .filter(({ algorithm }) => SRI_ALGORITHMS.includes(algorithm))
+      .sort((a, b) => SRI_ALGORITHMS.indexOf(a.algorithm) - SRI_ALGORITHMS.indexOf(b.algorithm));
+
+    if (hashes.length > 0) {
+      const { algorithm, digest } = hashes[0];
+      // Strip any SRI options (sha512-<digest>?opt)
+      const expected = digest.split('?')[0];
+      const actual = await hashFile(filePath, algorithm, 'base64');
+      if (actual !== expected) {
+        throw new IntegrityError(
+          `Integrity check failed for ${path.basename(filePath)}: expected ${algorithm}-${expected}, got ${algorithm}-${actual}`,
+          filePath,
+          `${algorithm}-${expected}`,
+          `${algorithm}-${actual}`
+        );
+      }
+      return true;
+    }
+  }
+
+  if (dist.shasum) {
+    const actual = await hashFile(filePath, 'sha1', 'hex');
+    if (actual !== dist.shasum.toLowerCase()) {
+      throw new IntegrityError(
+        `Checksum mismatch for ${path.basename(filePath)}: expected sha1 ${dist.shasum}, got ${actual}`,
+        filePath,
+        dist.shasum,
+        actual
+      );
+    }
+    return true;
+  }
+
+  return false;
 }
 
 /**
- * Get package info from npm registry
+ * Get package info from the npm registry (or the registry configured for the package scope)
  */
-export async function getPackageInfo(packageName: string, version?: string): Promise<PackageInfo> {
-  const response = await fetch(
-    `https://registry.npmjs.org/${encodeURIComponent(packageName)}/${version || 'latest'}`
-  );
+export async function getPackageInfo(
+  packageName: string,
+  version?: string,
+  registry?: ResolvedRegistryConfig
+): Promise<PackageInfo> {
+  const url = `${getRegistryUrl(packageName, registry)}${encodeURIComponent(packageName)}/${version || 'latest'}`;
+  const response = await fetch(url, { headers: getAuthHeaders(url, registry) });
   if (!response.ok) {
-    throw new Error(`Package not found: ${packageName} (${response.status})`);
+    throw new DownloadError(
+      `Package not found: ${packageName} (${response.status})`,
+      url,
+      response.status
+    );
   }
   return (await response.json()) as PackageInfo;
 }
@@ -42,19 +227,59 @@ export async function getPackageInfo(packageName: string, version?: string): Pro
 export async function downloadAndExtractPackage(
   packageName: string,
   tempDir: string,
-  version?: string
+  version?: string,
+  registry?: ResolvedRegistryConfig,
+  logger: Logger = silentLogger
+): Promise<string> {
+  const packageInfo = await getPackageInfo(packageName, version, registry);
+  logger.info(`📋 Package version: ${packageInfo.version}`);
+
+  return downloadAndExtractTarball(packageInfo, tempDir, registry, undefined, logger);
+}
+
+/**
+ * Download, verify and extract the tarball of a resolved package version, reusing the cached
+ * tarball when there is one
+ */
+export async function downloadAndExtractTarball(
+  packageInfo: PackageInfo,
+  tempDir: string,
+  registry?: ResolvedRegistryConfig,
+  cache?: ExtractionCache,
+  logger: Logger = silentLogger
 ): Promise<string> {
-  const packageInfo = await getPackageInfo(packageName, version);
-  console.log(`📋 Package version: ${packageInfo.version}`);
+  const cachedTarball = await cache?.getTarball(packageInfo.dist);
+  if (cachedTarball) {
+    logger.info(`⚡ Using cached tarball for ${packageInfo.name}@${packageInfo.version}`);
+    return extractTarball(cachedTarball, tempDir);
+  }
 
   const downloadPath = path.join(tempDir, 'package.tgz');
-  await downloadFile(packageInfo.dist.tarball, downloadPath);
+  await downloadFile(packageInfo.dist.tarball, downloadPath, {
+    headers: getAuthHeaders(packageInfo.dist.tarball, registry),
+    logger,
+  });
+
+  if (await verifyIntegrity(downloadPath, packageInfo.dist)) {
+    await cache?.storeTarball(packageInfo.dist, downloadPath);
+  } else {
+    logger.warn(
+      `⚠️  No integrity information for ${packageInfo.name}, skipping tarball verification`
+    );
+  }
 
+  return extractTarball(downloadPath, tempDir);
+}
+
+/**
+ * Extract a package tarball into `<tempDir>/extracted` and return that path
+ */
+export async function extractTarball(tarballPath: string, tempDir: string): Promise<string> {
   const extractPath = path.join(tempDir, 'extracted');
   await fs.mkdir(extractPath, { recursive: true });
 
   await tar.extract({
-    file: downloadPath,
+    file: tarballPath,
     cwd: extractPath,
     strip: 1,
   });
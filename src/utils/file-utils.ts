@@ -0,0 +1,17 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Write a file through a temporary file so readers never see a partial one
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}-${Date.now()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,188 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { DependencyInstallScript } from '../types/node-description';
+
+const execAsync = promisify(exec);
+
+// Native addons that don't work without their install scripts, run in safe install mode
+export const DEFAULT_ALLOWED_INSTALL_SCRIPTS = [
+  'isolated-vm',
+  'sqlite3',
+  'better-sqlite3',
+  'sharp',
+  'bcrypt',
+  'canvas',
+];
+
+// Lifecycle scripts npm runs when a package is installed
+const INSTALL_LIFECYCLE_SCRIPTS = ['preinstall', 'install', 'postinstall'];
+
+// Passed on to npm in safe install mode, anything else (tokens, CI secrets) is left out
+const SAFE_ENV_VARIABLES = [
+  'PATH',
+  'LANG',
+  'SYSTEMROOT',
+  'COMSPEC',
+  'HTTP_PROXY',
+  'HTTPS_PROXY',
+  'NO_PROXY',
+  'http_proxy',
+  'https_proxy',
+  'no_proxy',
+  'NODE_EXTRA_CA_CERTS',
+];
+
+// npm's output is kept for the error of a failed install
+const NPM_MAX_BUFFER = 64 * 1024 * 1024;
+
+export interface NpmInstallOptions {
+  // Install without dependency install scripts, in a clean environment and a temporary HOME
+  safe?: boolean;
+  // Packages whose install scripts still run in safe mode (default: DEFAULT_ALLOWED_INSTALL_SCRIPTS)
+  allowScripts?: string[];
+  // npm cache used in safe mode instead of the user's, a temporary one when not set
+  npmCacheDir?: string;
+}
+
+/**
+ * Build the environment of npm in safe install mode
+ */
+function getSafeInstallEnv(homeDir: string, npmCacheDir: string): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of SAFE_ENV_VARIABLES) {
+    if (process.env[name] !== undefined) {
+      env[name] = process.env[name];
+    }
+  }
+
+  return {
+    ...env,
+    HOME: homeDir,
+    USERPROFILE: homeDir,
+    TMPDIR: homeDir,
+    npm_config_cache: npmCacheDir,
+    npm_config_userconfig: path.join(homeDir, '.npmrc'),
+    npm_config_update_notifier: 'false',
+    npm_config_audit: 'false',
+    npm_config_fund: 'false',
+  };
+}
+
+/**
+ * List the package folders in a node_modules folder, including scoped and nested packages
+ */
+async function listInstalledPackages(nodeModulesPath: string): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(nodeModulesPath);
+  } catch {
+    return [];
+  }
+
+  const packagePaths: string[] = [];
+  for (const entry of entries) {
+    if (entry.startsWith('.')) continue;
+
+    const entryPath = path.join(nodeModulesPath, entry);
+    const folders = entry.startsWith('@')
+      ? (await fs.readdir(entryPath).catch(() => [])).map(name => path.join(entryPath, name))
+      : [entryPath];
+
+    for (const folder of folders) {
+      packagePaths.push(
+        folder,
+        ...(await listInstalledPackages(path.join(folder, 'node_modules')))
+      );
+    }
+  }
+  return packagePaths;
+}
+
+/**
+ * Find the installed dependencies that declare install scripts. Packages with a binding.gyp and
+ * no install script get npm's default `node-gyp rebuild`
+ */
+export async function findInstallScripts(
+  projectPath: string
+): Promise<Omit<DependencyInstallScript, 'ran'>[]> {
+  const found: Omit<DependencyInstallScript, 'ran'>[] = [];
+
+  for (const packagePath of await listInstalledPackages(path.join(projectPath, 'node_modules'))) {
+    let packageJson: { name: string; version: string; scripts?: Record<string, unknown> };
+    try {
+      packageJson = JSON.parse(await fs.readFile(path.join(packagePath, 'package.json'), 'utf8'));
+    } catch {
+      continue;
+    }
+
+    const scripts: Record<string, string> = {};
+    for (const name of INSTALL_LIFECYCLE_SCRIPTS) {
+      const script = packageJson.scripts?.[name];
+      if (typeof script === 'string') {
+        scripts[name] = script;
+      }
+    }
+    if (!scripts.install && !scripts.preinstall) {
+      const hasBindingGyp = await fs.access(path.join(packagePath, 'binding.gyp')).then(
+        () => true,
+        () => false
+      );
+      if (hasBindingGyp) scripts.install = 'node-gyp rebuild';
+    }
+
+    if (Object.keys(scripts).length > 0) {
+      found.push({ name: packageJson.name, version: packageJson.version, scripts });
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Run npm install in a project folder. In safe mode dependency install scripts are skipped and
+ * only the allowed ones are run afterwards with npm rebuild, npm gets none of our environment
+ * variables and its own HOME. Returns the dependencies that declare install scripts, always
+ * empty outside of safe mode
+ */
+export async function runNpmInstall(
+  projectPath: string,
+  flags: string,
+  options: NpmInstallOptions = {}
+): Promise<DependencyInstallScript[]> {
+  if (!options.safe) {
+    await execAsync(`npm install ${flags}`, { cwd: projectPath, maxBuffer: NPM_MAX_BUFFER });
+    return [];
+  }
+
+  const homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'extractor-home-'));
+  try {
+    const env = getSafeInstallEnv(homeDir, options.npmCacheDir ?? path.join(homeDir, '.npm'));
+    await execAsync(`npm install ${flags} --ignore-scripts`, {
+      cwd: projectPath,
+      env,
+      maxBuffer: NPM_MAX_BUFFER,
+    });
+
+    const allowed = new Set(options.allowScripts ?? DEFAULT_ALLOWED_INSTALL_SCRIPTS);
+    const installScripts = (await findInstallScripts(projectPath)).map(script => ({
+      ...script,
+      ran: allowed.has(script.name),
+    }));
+
+    const rebuild = [...new Set(installScripts.filter(s => s.ran).map(s => s.name))];
+    if (rebuild.length > 0) {
+      await execAsync(`npm rebuild ${rebuild.join(' ')}`, {
+        cwd: projectPath,
+        env,
+        maxBuffer: NPM_MAX_BUFFER,
+      });
+    }
+
+    return installScripts;
+  } finally {
+    await fs.rm(homeDir, { recursive: true, force: true });
+  }
+}
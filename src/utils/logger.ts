@@ -0,0 +1,42 @@
+/**
+ * Receives the extractor's messages. Debug messages are only sent in verbose mode
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+const ignore = () => undefined;
+
+// Default for library use
+export const silentLogger: Logger = { debug: ignore, info: ignore, warn: ignore, error: ignore };
+
+// Logs to the terminal, used by the CLI
+export const consoleLogger: Logger = {
+  debug: (message, ...args) => console.log(message, ...args),
+  info: (message, ...args) => console.log(message, ...args),
+  warn: (message, ...args) => console.warn(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
+};
+
+// Logs everything to stderr, used by the CLI when the result is written to stdout
+export const stderrLogger: Logger = {
+  debug: (message, ...args) => console.error(message, ...args),
+  info: (message, ...args) => console.error(message, ...args),
+  warn: (message, ...args) => console.error(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
+};
+
+/**
+ * Prefix every message, e.g. with a job id when several extractions log at the same time
+ */
+export function withPrefix(logger: Logger, prefix: string): Logger {
+  return {
+    debug: (message, ...args) => logger.debug(`${prefix} ${message}`, ...args),
+    info: (message, ...args) => logger.info(`${prefix} ${message}`, ...args),
+    warn: (message, ...args) => logger.warn(`${prefix} ${message}`, ...args),
+    error: (message, ...args) => logger.error(`${prefix} ${message}`, ...args),
+  };
+}
@@ -0,0 +1,145 @@
+import Module, { createRequire } from 'module';
+import * as path from 'path';
+import { parentPort, workerData } from 'worker_threads';
+import type { LoadedClassSnapshot, ModuleLoaderWorkerData } from './module-loader';
+import { SideEffectAudit, startSideEffectAudit } from './side-effect-audit';
+
+type NodeModule = Record<string, unknown>;
+
+type LoadedClass = new () => object;
+
+// Internals of the CommonJS loader that @types/node doesn't declare
+interface ModuleInternals {
+  _initPaths(): void;
+}
+
+/**
+ * Resolve node or credential class from module exports
+ */
+function resolveClass(loadedModule: NodeModule): LoadedClass | null {
+  if (loadedModule.default && typeof loadedModule.default === 'function') {
+    return loadedModule.default as LoadedClass;
+  }
+
+  // Try any function export
+  for (const [key, value] of Object.entries(loadedModule)) {
+    if (typeof value === 'function' && key !== 'default') {
+      return value as LoadedClass;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert a value to plain JSON data, dropping functions and circular references. Objects used
+ * in several places (e.g. one options array shared by two properties) are output every time,
+ * only references back to an ancestor are cut
+ */
+function toSerializable(value: unknown): unknown {
+  // Objects from the root to the holder of the value being serialized
+  const ancestors: object[] = [];
+  const json = JSON.stringify(value, function (this: object, _key, current) {
+    if (typeof current === 'bigint') return current.toString();
+    if (typeof current !== 'object' || current === null) return current;
+
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(current)) return undefined;
+    ancestors.push(current);
+    return current;
+  });
+  return json === undefined ? undefined : JSON.parse(json);
+}
+
+function snapshotInstance(instance: object): LoadedClassSnapshot {
+  const { methods, nodeVersions, ...fields } = instance as {
+    methods?: unknown;
+    nodeVersions?: unknown;
+  };
+
+  const snapshot: LoadedClassSnapshot = {
+    backend: 'require',
+    className: instance.constructor?.name || '',
+    properties: (toSerializable(fields) as Record<string, unknown> | undefined) ?? {},
+  };
+
+  if (methods && typeof methods === 'object') {
+    snapshot.methods = {};
+    for (const [group, entries] of Object.entries(methods)) {
+      if (entries && typeof entries === 'object') {
+        snapshot.methods[group] = Object.keys(entries);
+      }
+    }
+  }
+
+  // VersionedNodeType: group the version numbers by implementation, several versions
+  // often share one instance
+  if (nodeVersions && typeof nodeVersions === 'object') {
+    const implementations = new Map<object, number[]>();
+    for (const [version, implementation] of Object.entries(nodeVersions)) {
+      implementations.set(implementation, [
+        ...(implementations.get(implementation) ?? []),
+        Number(version),
+      ]);
+    }
+    snapshot.nodeVersions = [...implementations].map(([implementation, versions]) => ({
+      versions: versions.sort((a, b) => a - b),
+      snapshot: snapshotInstance(implementation),
+    }));
+  }
+
+  return snapshot;
+}
+
+function run(): void {
+  const { filePath, modulePaths, sideEffects, ignoredPackages } =
+    workerData as ModuleLoaderWorkerData;
+
+  // Let the loaded file and its dependencies resolve packages from the install folders. Node
+  // resolves from a copy of the global paths, so they have to be set through NODE_PATH and
+  // reinitialized; the worker has its own copy of process.env
+  process.env.NODE_PATH = [...modulePaths, process.env.NODE_PATH]
+    .filter(Boolean)
+    .join(path.delimiter);
+  (Module as unknown as ModuleInternals)._initPaths();
+
+  // Started after the setup above, only the loaded file and its dependencies are audited
+  const audit: SideEffectAudit | undefined =
+    sideEffects !== 'off'
+      ? startSideEffectAudit({ mode: sideEffects, ignoredPackages })
+      : undefined;
+
+  try {
+    const loadedModule = createRequire(filePath)(filePath) as NodeModule;
+    const LoadedClass = resolveClass(loadedModule);
+
+    if (!LoadedClass) {
+      parentPort!.postMessage({ ok: true, snapshot: null });
+      return;
+    }
+
+    const instance = new LoadedClass();
+    const recorded = audit?.stop();
+    const snapshot = snapshotInstance(instance);
+    if (recorded) snapshot.sideEffects = recorded;
+    parentPort!.postMessage({ ok: true, snapshot });
+  } catch (error) {
+    // Stopped first, formatting the stack can read source maps
+    const recorded = audit?.stop();
+    parentPort!.postMessage({
+      ok: false,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      sideEffects: recorded,
+    });
+  } finally {
+    // Also stopped when no class was found, stopping twice returns the same records
+    audit?.stop();
+  }
+}
+
+run();
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { RawNodeDescription } from '../types/node-description';
+import { loadClassInWorker } from './module-loader';
+
+describe('loadClassInWorker', () => {
+  let tempDir: string;
+
+  const writeNode = async (name: string, source: string): Promise<string> => {
+    const filePath = path.join(tempDir, name);
+    await fs.writeFile(filePath, source);
+    return filePath;
+  };
+
+  before(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'module-loader-test-'));
+  });
+
+  after(() => fs.rm(tempDir, { recursive: true, force: true }));
+
+  it('keeps objects shared by several properties', async () => {
+    const filePath = await writeNode(
+      'Shared.node.js',
+      `
+      const options = [{ name: 'A', value: 'a' }, { name: 'B', value: 'b' }];
+      const show = { resource: ['item'] };
+      class Shared {
+        constructor() {
+          this.description = {
+            name: 'shared',
+            properties: [
+              { name: 'first', type: 'options', options, displayOptions: { show } },
+              { name: 'second', type: 'options', options, displayOptions: { show } },
+            ],
+          };
+        }
+      }
+      exports.Shared = Shared;
+      `
+    );
+
+    const snapshot = await loadClassInWorker(filePath, { modulePaths: [] });
+    const { properties } = snapshot!.properties.description as RawNodeDescription;
+    const [first, second] = properties!;
+
+    assert.deepEqual(second.options, first.options);
+    assert.deepEqual(second.displayOptions, { show: { resource: ['item'] } });
+  });
+
+  it('cuts references back to an ancestor', async () => {
+    const filePath = await writeNode(
+      'Circular.node.js',
+      `
+      class Circular {
+        constructor() {
+          const property = { name: 'self', type: 'string' };
+          property.parent = property;
+          this.description = { name: 'circular', properties: [property] };
+          this.description.owner = this.description;
+        }
+      }
+      exports.Circular = Circular;
+      `
+    );
+
+    const snapshot = await loadClassInWorker(filePath, { modulePaths: [] });
+    const description = snapshot!.properties.description as RawNodeDescription;
+
+    assert.deepEqual(description.properties, [{ name: 'self', type: 'string' }]);
+    assert.equal('owner' in description, false);
+  });
+});
@@ -0,0 +1,152 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { ExtractionBackend, SideEffect, SideEffectMode } from '../types/node-description';
+import { N8N_RUNTIME_PACKAGES } from './npm-utils';
+
+export interface ModuleLoaderWorkerData {
+  filePath: string;
+  modulePaths: string[];
+  sideEffects: SideEffectMode;
+  // Packages whose side effects at load time are not the node's
+  ignoredPackages: string[];
+}
+
+/**
+ * Serialized view of a node or credential instance created in the loader worker
+ */
+export interface LoadedClassSnapshot {
+  backend: ExtractionBackend;
+  className: string;
+  // Own fields of the instance (e.g. `description` for nodes), functions are dropped
+  properties: Record<string, unknown>;
+  // Method names per group, e.g. { loadOptions: ['getProjects'] }
+  methods?: Record<string, string[]>;
+  // Implementations of a VersionedNodeType and the version numbers they handle
+  nodeVersions?: Array<{ versions: number[]; snapshot: LoadedClassSnapshot }>;
+  // Side effects of loading the file and creating the instance, when audited
+  sideEffects?: SideEffect[];
+}
+
+export interface ModuleLoadOptions {
+  modulePaths: string[];
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  // Record or block side effects of the loaded file (default: off)
+  sideEffects?: SideEffectMode;
+}
+
+export type ModuleLoadFailure = 'timeout' | 'memory-limit' | 'crashed' | 'error';
+
+export class ModuleLoadError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: ModuleLoadFailure,
+    public readonly filePath: string,
+    public readonly workerStack?: string,
+    // Side effects recorded before loading failed, when audited
+    public readonly sideEffects?: SideEffect[]
+  ) {
+    super(message);
+    this.name = 'ModuleLoadError';
+  }
+}
+
+export const DEFAULT_LOAD_TIMEOUT_MS = 10000;
+export const DEFAULT_LOAD_MEMORY_LIMIT_MB = 512;
+
+/**
+ * Build the worker bootstrap, registering ts-node when running from the TypeScript sources
+ */
+function getWorkerBootstrap(): string {
+  const extension = path.extname(__filename);
+  const workerFile = path.join(__dirname, `module-loader-worker${extension}`);
+  const lines = [`require(${JSON.stringify(workerFile)});`];
+  if (extension === '.ts') {
+    lines.unshift(
+      `require(${JSON.stringify(require.resolve('ts-node'))}).register({ transpileOnly: true });`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Load a node or credential file in a worker thread and return a snapshot of its class instance.
+ * The worker is terminated when the timeout is hit, so endless loops in top-level code can't hang us.
+ */
+export async function loadClassInWorker(
+  filePath: string,
+  options: ModuleLoadOptions
+): Promise<LoadedClassSnapshot | null> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOAD_TIMEOUT_MS;
+  const memoryLimitMb = options.memoryLimitMb ?? DEFAULT_LOAD_MEMORY_LIMIT_MB;
+
+  const workerData: ModuleLoaderWorkerData = {
+    filePath,
+    modulePaths: options.modulePaths,
+    sideEffects: options.sideEffects ?? 'off',
+    ignoredPackages: N8N_RUNTIME_PACKAGES,
+  };
+  const worker = new Worker(getWorkerBootstrap(), {
+    eval: true,
+    workerData,
+    resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb },
+    stdout: true,
+  });
+  // Whatever node code prints while loading is not part of our output, which may be on stdout
+  worker.stdout.pipe(process.stderr);
+
+  return new Promise<LoadedClassSnapshot | null>((resolve, reject) => {
+    let settled = false;
+
+    const finish = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      // Node code may leave timers or sockets open, so never wait for the worker to exit
+      worker.terminate().catch(() => undefined);
+      callback();
+    };
+
+    const timeoutId = setTimeout(() => {
+      finish(() =>
+        reject(new ModuleLoadError(`Module load timeout after ${timeoutMs}ms`, 'timeout', filePath))
+      );
+    }, timeoutMs);
+
+    worker.on('message', message => {
+      if (message.ok) {
+        finish(() => resolve(message.snapshot));
+      } else {
+        finish(() =>
+          reject(
+            new ModuleLoadError(
+              message.error.message,
+              'error',
+              filePath,
+              message.error.stack,
+              message.sideEffects
+            )
+          )
+        );
+      }
+    });
+
+    worker.on('error', (error: NodeJS.ErrnoException) => {
+      const reason: ModuleLoadFailure =
+        error.code === 'ERR_WORKER_OUT_OF_MEMORY' ? 'memory-limit' : 'error';
+      const message =
+        reason === 'memory-limit'
+          ? `Module exceeded the memory limit of ${memoryLimitMb}MB`
+          : error.message;
+      finish(() => reject(new ModuleLoadError(message, reason, filePath, error.stack)));
+    });
+
+    worker.on('exit', code => {
+      finish(() =>
+        reject(
+          new ModuleLoadError(`Module loader exited early with code ${code}`, 'crashed', filePath)
+        )
+      );
+    });
+  });
+}
@@ -1,16 +1,51 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { execSync } from 'child_process';
+import * as tar from 'tar';
+import { ResolvedRegistryConfig, writeNpmrc } from './registry-utils';
+import { getPackageInfo } from './download-utils';
+import { Logger, silentLogger } from './logger';
+import { NpmInstallOptions, runNpmInstall } from './install-utils';
+import { DependencyInstallScript } from '../types/node-description';
+
+// Packages every node needs at runtime, they can come from a shared cached install
+export const N8N_RUNTIME_PACKAGES = ['n8n-workflow', 'n8n-core'];
+
+export interface SetupDependenciesOptions {
+  // n8n-workflow and n8n-core are provided separately, only install the package's own dependencies
+  skipRuntime?: boolean;
+  // Exact n8n-workflow and n8n-core versions to install instead of the package's peerDependencies
+  runtimeVersions?: Record<string, string>;
+  // Safe install mode settings
+  install?: NpmInstallOptions;
+  logger?: Logger;
+}
+
+// Fields of a package.json the extractor reads or changes
+export interface PackageJson {
+  name: string;
+  version: string;
+  dependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+  [field: string]: unknown;
+}
 
 /**
- * Setup n8n dependencies in package directory
+ * Setup n8n dependencies in package directory, returns the dependencies with install scripts
+ * found by the safe install mode
  */
-export async function setupN8nDependencies(packagePath: string): Promise<void> {
+export async function setupN8nDependencies(
+  packagePath: string,
+  registry?: ResolvedRegistryConfig,
+  options: SetupDependenciesOptions = {}
+): Promise<DependencyInstallScript[]> {
+  const logger = options.logger ?? silentLogger;
   try {
-    console.log(`📦 Setting up n8n dependencies...`);
+    logger.info(`📦 Setting up n8n dependencies...`);
 
     const packageJsonPath = path.join(packagePath, 'package.json');
-    let packageJson: any = {};
+    let packageJson: PackageJson;
 
     try {
       packageJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf8'));
@@ -20,18 +55,30 @@ export async function setupN8nDependencies(packagePath: string): Promise<void> {
 
     // Add n8n dependencies (move peerDependencies to dependencies for installation)
     if (!packageJson.dependencies) packageJson.dependencies = {};
+    const dependencies = packageJson.dependencies;
 
     // Copy peerDependencies to dependencies
     if (packageJson.peerDependencies) {
-      Object.assign(packageJson.dependencies, packageJson.peerDependencies);
+      Object.assign(dependencies, packageJson.peerDependencies);
     }
 
-    // Ensure core n8n packages are present
-    if (!packageJson.dependencies['n8n-workflow']) {
-      packageJson.dependencies['n8n-workflow'] = 'latest';
-    }
-    if (!packageJson.dependencies['n8n-core']) {
-      packageJson.dependencies['n8n-core'] = 'latest';
+    if (options.skipRuntime) {
+      for (const name of N8N_RUNTIME_PACKAGES) {
+        delete packageJson.dependencies[name];
+      }
+      if (Object.keys(packageJson.dependencies).length === 0) {
+        logger.info(`✅ Dependencies ready, no package dependencies to install`);
+        return [];
+      }
+    } else if (options.runtimeVersions) {
+      Object.assign(packageJson.dependencies, options.runtimeVersions);
+    } else {
+      // Ensure core n8n packages are present
+      for (const name of N8N_RUNTIME_PACKAGES) {
+        if (!packageJson.dependencies[name]) {
+          packageJson.dependencies[name] = 'latest';
+        }
+      }
     }
 
     // Remove devDependencies to avoid installing them in production mode
@@ -39,37 +86,120 @@ export async function setupN8nDependencies(packagePath: string): Promise<void> {
 
     // Remove lifecycle scripts from the root package to prevent issues like
     // husky hooks failing, while still allowing native addons in dependencies
-    // (e.g. isolated-vm) to compile their binaries via their own install scripts
+    // (e.g. isolated-vm) to compile their binaries via their own install scripts,
+    // the safe install mode only runs those of allowed dependencies
     delete packageJson.scripts;
 
     await fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
+    await writeNpmrc(packagePath, registry);
 
-    execSync('npm install --no-save --omit=dev', {
-      cwd: packagePath,
-      stdio: 'inherit',
-    });
+    // Without --legacy-peer-deps npm would install n8n-workflow again as a peer dependency
+    const installFlags = options.skipRuntime ? ' --legacy-peer-deps' : '';
+    // npm's output is only shown when the install fails
+    const installScripts = await runNpmInstall(
+      packagePath,
+      `--no-save --omit=dev${installFlags}`,
+      options.install
+    );
 
-    console.log(`✅ Dependencies ready`);
-  } catch (error: any) {
-    console.warn(`⚠️  Could not setup dependencies:`, error.message);
+    logger.info(`✅ Dependencies ready`);
+    return installScripts;
+  } catch (error) {
+    logger.warn(
+      `⚠️  Could not setup dependencies:`,
+      error instanceof Error ? error.message : String(error)
+    );
     // Try to get more details about the npm error
-    if (error.stderr) {
-      console.warn('npm stderr:', error.stderr.toString());
+    const { stderr, stdout } = error as { stderr?: unknown; stdout?: unknown };
+    if (stderr) {
+      logger.warn('npm stderr:', String(stderr));
     }
-    if (error.stdout) {
-      console.warn('npm stdout:', error.stdout.toString());
+    if (stdout) {
+      logger.warn('npm stdout:', String(stdout));
     }
     throw error; // Re-throw to stop execution
   }
 }
 
+/**
+ * Resolve the n8n-workflow and n8n-core versions to install for a package's peerDependencies,
+ * using the latest version when a range can't be resolved by the registry
+ */
+export async function resolveRuntimeVersions(
+  peerDependencies: Record<string, string> = {},
+  registry?: ResolvedRegistryConfig,
+  logger: Logger = silentLogger
+): Promise<Record<string, string>> {
+  const versions: Record<string, string> = {};
+
+  for (const name of N8N_RUNTIME_PACKAGES) {
+    const range = peerDependencies[name];
+    const spec = !range || range === '*' ? 'latest' : range;
+    try {
+      versions[name] = (await getPackageInfo(name, spec, registry)).version;
+    } catch {
+      logger.warn(`⚠️  Could not resolve ${name}@${spec}, using the latest version`);
+      versions[name] = (await getPackageInfo(name, 'latest', registry)).version;
+    }
+  }
+
+  return versions;
+}
+
+export interface N8nRelease {
+  // Exact version of the release, e.g. for the `latest` dist-tag
+  version: string;
+  // Exact n8n-workflow and n8n-core versions the release depends on
+  runtimeVersions: Record<string, string>;
+}
+
+/**
+ * Resolve an n8n version or dist-tag to the exact release and the n8n-workflow and n8n-core
+ * versions it depends on. Releases depend on exact versions, ranges of older releases are
+ * resolved in the registry
+ */
+export async function resolveN8nRelease(
+  n8nVersion: string,
+  registry?: ResolvedRegistryConfig
+): Promise<N8nRelease> {
+  const n8n = await getPackageInfo('n8n', n8nVersion, registry);
+  const runtimeVersions: Record<string, string> = {};
+
+  for (const name of N8N_RUNTIME_PACKAGES) {
+    const spec = n8n.dependencies?.[name];
+    if (!spec) {
+      throw new Error(`n8n@${n8n.version} doesn't depend on ${name}`);
+    }
+    runtimeVersions[name] = (await getPackageInfo(name, spec, registry)).version;
+  }
+
+  return { version: n8n.version, runtimeVersions };
+}
+
+/**
+ * Install exact n8n-workflow and n8n-core versions into a directory
+ */
+export async function installN8nRuntime(
+  directory: string,
+  versions: Record<string, string>,
+  registry?: ResolvedRegistryConfig,
+  install?: NpmInstallOptions
+): Promise<void> {
+  const packageJson = { name: 'n8n-runtime', version: '1.0.0', dependencies: versions };
+  await fs.writeFile(path.join(directory, 'package.json'), JSON.stringify(packageJson, null, 2));
+  await writeNpmrc(directory, registry);
+
+  await runNpmInstall(directory, '--no-save --omit=dev --legacy-peer-deps', install);
+}
+
 export interface N8nPackageConfig {
   nodes: string[];
+  credentials: string[];
   aiNodeSdkVersion?: number;
 }
 
 /**
- * Get n8n config from package.json (declared nodes and optional aiNodeSdkVersion)
+ * Get n8n config from package.json (declared nodes, credentials and optional aiNodeSdkVersion)
  */
 export async function getN8nPackageConfig(packagePath: string): Promise<N8nPackageConfig> {
   try {
@@ -79,6 +209,7 @@ export async function getN8nPackageConfig(packagePath: string): Promise<N8nPacka
 
     const config: N8nPackageConfig = {
       nodes: n8n?.nodes ?? [],
+      credentials: n8n?.credentials ?? [],
     };
 
     const version = n8n?.aiNodeSdkVersion;
@@ -88,8 +219,54 @@ export async function getN8nPackageConfig(packagePath: string): Promise<N8nPacka
 
     return config;
   } catch {
-    return { nodes: [] };
+    return { nodes: [], credentials: [] };
+  }
+}
+
+/**
+ * Check if a package argument points to a local tarball or directory instead of the registry
+ */
+export function isLocalPackageSpec(spec: string): boolean {
+  return (
+    spec.startsWith('file:') ||
+    spec.startsWith('./') ||
+    spec.startsWith('../') ||
+    spec.startsWith('/') ||
+    spec.endsWith('.tgz') ||
+    spec.endsWith('.tar.gz')
+  );
+}
+
+/**
+ * Resolve a local package argument to an absolute path
+ */
+export function resolveLocalPackagePath(spec: string): string {
+  return path.resolve(spec.replace(/^file:/, ''));
+}
+
+/**
+ * Read the package.json of a local tarball or directory
+ */
+export async function readLocalPackageJson(localPath: string): Promise<PackageJson> {
+  const stat = await fs.stat(localPath);
+  if (stat.isDirectory()) {
+    return JSON.parse(await fs.readFile(path.join(localPath, 'package.json'), 'utf8'));
+  }
+
+  let content = '';
+  await tar.list({
+    file: localPath,
+    // npm tarballs use a `package/` root folder, but other names are valid too
+    filter: entryPath => /^[^/]+\/package\.json$/.test(entryPath),
+    onReadEntry: entry => {
+      entry.on('data', (chunk: Buffer) => (content += chunk.toString('utf8')));
+    },
+  });
+
+  if (!content) {
+    throw new Error(`No package.json found in ${localPath}`);
   }
+  return JSON.parse(content);
 }
 
 export function parsePackageName(packageName: string): { name: string; version: string } {
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { getAuthHeaders, loadRegistryConfig } from './registry-utils';
+
+describe('loadRegistryConfig', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'registry-utils-test-'));
+    await fs.writeFile(
+      path.join(directory, '.npmrc'),
+      'registry=https://npm.example.com/private\n'
+    );
+  });
+
+  after(() => fs.rm(directory, { recursive: true, force: true }));
+
+  it('sends the token to the registry read from the .npmrc', async () => {
+    const config = await loadRegistryConfig({ token: 'secret' }, directory);
+
+    assert.equal(config.registry, 'https://npm.example.com/private/');
+    assert.deepEqual(getAuthHeaders('https://npm.example.com/private/n8n-nodes-foo', config), {
+      Authorization: 'Bearer secret',
+    });
+    assert.deepEqual(getAuthHeaders('https://registry.npmjs.org/n8n-nodes-foo', config), {});
+  });
+
+  it('sends the token to the registry given explicitly', async () => {
+    const config = await loadRegistryConfig(
+      { registry: 'https://other.example.com', token: 'secret' },
+      directory
+    );
+
+    assert.deepEqual(getAuthHeaders('https://other.example.com/n8n-nodes-foo', config), {
+      Authorization: 'Bearer secret',
+    });
+    assert.deepEqual(getAuthHeaders('https://npm.example.com/private/n8n-nodes-foo', config), {});
+  });
+});
@@ -0,0 +1,222 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export const DEFAULT_REGISTRY = 'https://registry.npmjs.org/';
+
+export interface RegistryAuth {
+  // Sent as a bearer token
+  token?: string;
+  // Sent as basic auth
+  username?: string;
+  password?: string;
+}
+
+export interface RegistryConfig {
+  // Default registry URL
+  registry?: string;
+  // Registry URL per scope, e.g. { '@my-org': 'https://npm.pkg.github.com/' }
+  scopes?: Record<string, string>;
+  // Credentials per registry URL
+  auth?: Record<string, RegistryAuth>;
+  // Bearer token for the default registry, which can come from an .npmrc file
+  token?: string;
+  // Extra .npmrc file, read after ~/.npmrc and ./.npmrc
+  npmrcPath?: string;
+}
+
+export interface ResolvedRegistryConfig {
+  registry: string;
+  scopes: Record<string, string>;
+  // Keyed by npm's "nerf dart" form of the registry URL: //host/path/
+  auth: Record<string, RegistryAuth>;
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+/**
+ * Convert a registry URL to the key npm uses for credentials (//host/path/)
+ */
+function toNerfDart(url: string): string {
+  const parsed = new URL(url);
+  return withTrailingSlash(`//${parsed.host}${parsed.pathname}`);
+}
+
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([^}]+)\}/g, (_match, name) => process.env[name] ?? '');
+}
+
+/**
+ * Parse the registry related settings of an .npmrc file
+ */
+export function parseNpmrc(content: string): ResolvedRegistryConfig {
+  const config: ResolvedRegistryConfig = { registry: '', scopes: {}, auth: {} };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim();
+    const value = expandEnv(
+      line
+        .slice(separator + 1)
+        .trim()
+        .replace(/^["']|["']$/g, '')
+    );
+
+    if (key === 'registry') {
+      config.registry = withTrailingSlash(value);
+    } else if (key.startsWith('@') && key.endsWith(':registry')) {
+      config.scopes[key.slice(0, -':registry'.length)] = withTrailingSlash(value);
+    } else if (key.startsWith('//')) {
+      const settingIndex = key.lastIndexOf(':');
+      const registryKey = withTrailingSlash(key.slice(0, settingIndex));
+      const setting = key.slice(settingIndex + 1);
+      const auth = (config.auth[registryKey] ??= {});
+
+      if (setting === '_authToken') {
+        auth.token = value;
+      } else if (setting === 'username') {
+        auth.username = value;
+      } else if (setting === '_password') {
+        auth.password = Buffer.from(value, 'base64').toString('utf8');
+      } else if (setting === '_auth') {
+        const [username, ...password] = Buffer.from(value, 'base64').toString('utf8').split(':');
+        auth.username = username;
+        auth.password = password.join(':');
+      }
+    }
+  }
+
+  return config;
+}
+
+async function readNpmrc(filePath: string): Promise<ResolvedRegistryConfig | null> {
+  try {
+    return parseNpmrc(await fs.readFile(filePath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function mergeRegistryConfig(
+  target: ResolvedRegistryConfig,
+  source: ResolvedRegistryConfig
+): ResolvedRegistryConfig {
+  return {
+    registry: source.registry || target.registry,
+    scopes: { ...target.scopes, ...source.scopes },
+    auth: { ...target.auth, ...source.auth },
+  };
+}
+
+/**
+ * Build the registry config from ~/.npmrc, ./.npmrc, the configured .npmrc and explicit settings,
+ * later sources winning
+ */
+export async function loadRegistryConfig(
+  config: RegistryConfig = {},
+  cwd: string = process.cwd()
+): Promise<ResolvedRegistryConfig> {
+  let resolved: ResolvedRegistryConfig = { registry: DEFAULT_REGISTRY, scopes: {}, auth: {} };
+
+  const npmrcPaths = [path.join(os.homedir(), '.npmrc'), path.join(cwd, '.npmrc')];
+  if (config.npmrcPath) npmrcPaths.push(path.resolve(config.npmrcPath));
+
+  for (const npmrcPath of npmrcPaths) {
+    const npmrc = await readNpmrc(npmrcPath);
+    if (npmrc) resolved = mergeRegistryConfig(resolved, npmrc);
+  }
+
+  const explicitAuth: Record<string, RegistryAuth> = {};
+  for (const [url, auth] of Object.entries(config.auth ?? {})) {
+    explicitAuth[url.startsWith('//') ? withTrailingSlash(url) : toNerfDart(url)] = auth;
+  }
+
+  const explicitScopes: Record<string, string> = {};
+  for (const [scope, url] of Object.entries(config.scopes ?? {})) {
+    explicitScopes[scope.startsWith('@') ? scope : `@${scope}`] = withTrailingSlash(url);
+  }
+
+  resolved = mergeRegistryConfig(resolved, {
+    registry: config.registry ? withTrailingSlash(config.registry) : '',
+    scopes: explicitScopes,
+    auth: explicitAuth,
+  });
+  if (config.token) {
+    resolved.auth[toNerfDart(resolved.registry)] = { token: config.token };
+  }
+  return resolved;
+}
+
+/**
+ * Get the registry URL for a package, taking scoped registries into account
+ */
+export function getRegistryUrl(packageName: string, config?: ResolvedRegistryConfig): string {
+  if (!config) return DEFAULT_REGISTRY;
+  const scope = packageName.startsWith('@') ? packageName.split('/')[0] : undefined;
+  return (scope && config.scopes[scope]) || config.registry;
+}
+
+/**
+ * Get the authorization headers for a registry or tarball URL, matching the most specific
+ * configured registry the same way npm does
+ */
+export function getAuthHeaders(
+  url: string,
+  config?: ResolvedRegistryConfig
+): Record<string, string> {
+  if (!config) return {};
+
+  const target = toNerfDart(url);
+  const registryKey = Object.keys(config.auth)
+    .filter(key => target.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  const auth = registryKey ? config.auth[registryKey] : undefined;
+
+  if (auth?.token) {
+    return { Authorization: `Bearer ${auth.token}` };
+  }
+  if (auth?.username && auth.password !== undefined) {
+    const credentials = Buffer.from(`${auth.username}:${auth.password}`).toString('base64');
+    return { Authorization: `Basic ${credentials}` };
+  }
+  return {};
+}
+
+/**
+ * Render the registry config as an .npmrc so npm install uses the same registries and credentials
+ */
+export function toNpmrc(config: ResolvedRegistryConfig): string {
+  const lines = [`registry=${config.registry}`];
+
+  for (const [scope, url] of Object.entries(config.scopes)) {
+    lines.push(`${scope}:registry=${url}`);
+  }
+
+  for (const [registryKey, auth] of Object.entries(config.auth)) {
+    if (auth.token) {
+      lines.push(`${registryKey}:_authToken=${auth.token}`);
+    } else if (auth.username && auth.password !== undefined) {
+      lines.push(`${registryKey}:username=${auth.username}`);
+      lines.push(`${registryKey}:_password=${Buffer.from(auth.password).toString('base64')}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write the registry config to an .npmrc in the directory npm install runs in
+ */
+export async function writeNpmrc(
+  directory: string,
+  config?: ResolvedRegistryConfig
+): Promise<void> {
+  if (!config) return;
+  await fs.writeFile(path.join(directory, '.npmrc'), toNpmrc(config), { mode: 0o600 });
+}
@@ -0,0 +1,258 @@
+// Default imports are the modules themselves, their functions are replaced in place
+import childProcess from 'child_process';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import Module from 'module';
+import net from 'net';
+import * as path from 'path';
+import tls from 'tls';
+import { SideEffect, SideEffectKind, SideEffectMode } from '../types/node-description';
+
+// Recorded side effects per loaded file, the rest is dropped
+const MAX_SIDE_EFFECTS = 100;
+// Long targets (e.g. shell commands) are cut to this length
+const MAX_TARGET_LENGTH = 200;
+
+const CHILD_PROCESS_FUNCTIONS = [
+  'spawn',
+  'spawnSync',
+  'exec',
+  'execSync',
+  'execFile',
+  'execFileSync',
+  'fork',
+];
+
+// Internals of the CommonJS loader that @types/node doesn't declare
+interface ModuleInternals {
+  _load(...args: unknown[]): unknown;
+  prototype: { _compile(content: string, filename: string): unknown };
+}
+
+export class SideEffectBlockedError extends Error {
+  constructor(readonly sideEffect: SideEffect) {
+    super(
+      `Blocked ${sideEffect.kind} access: ${sideEffect.operation}` +
+        (sideEffect.target ? ` ${sideEffect.target}` : '')
+    );
+    this.name = 'SideEffectBlockedError';
+  }
+}
+
+export interface SideEffectAuditOptions {
+  mode: Exclude<SideEffectMode, 'off'>;
+  // Packages whose top-level code is ours rather than the node's, e.g. n8n-workflow
+  ignoredPackages?: string[];
+}
+
+export interface SideEffectAudit {
+  // Stop recording and blocking, and return what was recorded
+  stop(): SideEffect[];
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_TARGET_LENGTH ? `${value.slice(0, MAX_TARGET_LENGTH)}…` : value;
+}
+
+function describePath(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return `fd ${value}`;
+  if (Buffer.isBuffer(value)) return value.toString();
+  if (value instanceof URL) return value.protocol === 'file:' ? value.pathname : value.href;
+  return undefined;
+}
+
+/**
+ * Host (and port) of the arguments of http.request, net.connect, fetch and the like
+ */
+function describeHost(value: unknown, second?: unknown): string | undefined {
+  if (typeof value === 'string') {
+    try {
+      return new URL(value).host;
+    } catch {
+      // net.connect(path) or net.connect(port, host)
+      return value;
+    }
+  }
+  if (typeof value === 'number') {
+    return `${typeof second === 'string' ? second : 'localhost'}:${value}`;
+  }
+  if (value instanceof URL) return value.host;
+  if (value && typeof value === 'object') {
+    const options = value as Record<string, unknown>;
+    if (typeof options.url === 'string') return describeHost(options.url);
+    // Unix sockets and named pipes
+    if (options.socketPath) return String(options.socketPath);
+    if (options.path && !options.host && !options.hostname && !options.port) {
+      return String(options.path);
+    }
+    const host = options.hostname ?? options.host ?? 'localhost';
+    return options.port !== undefined ? `${host}:${options.port}` : String(host);
+  }
+  return undefined;
+}
+
+/**
+ * Instrument fs, net, http(s), tls, child_process, fetch and process.env in the current thread
+ * and record their use by the code of loaded modules. Top-level code run by the module loader
+ * itself (reading files to require them) isn't recorded. Only meant for the module loader
+ * worker, the instrumentation can't be removed
+ */
+export function startSideEffectAudit(options: SideEffectAuditOptions): SideEffectAudit {
+  const block = options.mode === 'block';
+  const ignoredFolders = (options.ignoredPackages ?? []).map(
+    name => `${path.sep}node_modules${path.sep}${name.split('/').join(path.sep)}${path.sep}`
+  );
+  const recorded = new Map<string, SideEffect>();
+  let active = true;
+  // Set while the module loader resolves and reads files, and while ignored packages load
+  let ignoring = false;
+  // Instrumented functions call each other, only the outermost call is recorded
+  let depth = 0;
+
+  const isRecording = () => active && !ignoring && depth === 0;
+
+  const record = (
+    kind: SideEffectKind,
+    operation: string,
+    target?: string
+  ): SideEffect | undefined => {
+    if (!isRecording()) return undefined;
+
+    const sideEffect: SideEffect = { kind, operation };
+    if (target !== undefined) sideEffect.target = truncate(target);
+    if (block) sideEffect.blocked = true;
+
+    const key = `${kind}\0${operation}\0${sideEffect.target ?? ''}`;
+    if (!recorded.has(key) && recorded.size < MAX_SIDE_EFFECTS) {
+      recorded.set(key, sideEffect);
+    }
+    return sideEffect;
+  };
+
+  const wrap = (
+    target: object,
+    name: string,
+    kind: SideEffectKind,
+    operation: string,
+    describe: (args: unknown[]) => string | undefined
+  ): void => {
+    const api = target as Record<string | symbol, unknown>;
+    const original = api[name];
+    if (typeof original !== 'function') return;
+
+    const wrapped = function (this: unknown, ...args: unknown[]) {
+      const sideEffect = record(kind, operation, describe(args));
+      if (sideEffect && block) {
+        throw new SideEffectBlockedError(sideEffect);
+      }
+      depth++;
+      try {
+        return original.apply(this, args);
+      } finally {
+        depth--;
+      }
+    };
+    // Keep attached helpers such as fs.realpathSync.native and util.promisify.custom
+    Object.assign(wrapped, original);
+    const promisifyCustom = Symbol.for('nodejs.util.promisify.custom');
+    const custom = (original as unknown as Record<symbol, unknown>)[promisifyCustom];
+    if (custom) Object.assign(wrapped, { [promisifyCustom]: custom });
+    api[name] = wrapped;
+  };
+
+  // The module loader reads files with fs, its own reads are not side effects of the node
+  const loader = Module as unknown as ModuleInternals;
+  const originalLoad = loader._load;
+  loader._load = function (this: unknown, ...args: unknown[]) {
+    const previous = ignoring;
+    ignoring = true;
+    try {
+      return originalLoad.apply(this, args);
+    } finally {
+      ignoring = previous;
+    }
+  };
+  const originalCompile = loader.prototype._compile;
+  loader.prototype._compile = function (this: unknown, content: string, filename: string) {
+    const previous = ignoring;
+    // Modules required by an ignored package stay ignored
+    ignoring = ignoredFolders.some(folder => filename.includes(folder));
+    try {
+      return originalCompile.call(this, content, filename);
+    } finally {
+      ignoring = previous;
+    }
+  };
+
+  const fsApis: Array<[Record<string, unknown>, string]> = [
+    [fs, ''],
+    [fs.promises, 'promises.'],
+  ];
+  for (const [api, prefix] of fsApis) {
+    for (const name of Object.keys(api)) {
+      // Functions only, classes such as fs.Stats start with a capital
+      if (typeof api[name] !== 'function' || !/^[a-z]/.test(name)) continue;
+      wrap(api, name, 'fs', `${prefix}${name}`, args => describePath(args[0]));
+    }
+  }
+
+  for (const [api, prefix] of [
+    [http, 'http.'],
+    [https, 'https.'],
+  ] as const) {
+    for (const name of ['request', 'get']) {
+      wrap(api, name, 'network', `${prefix}${name}`, args => describeHost(args[0]));
+    }
+  }
+  for (const name of ['connect', 'createConnection']) {
+    wrap(net, name, 'network', `net.${name}`, args => describeHost(args[0], args[1]));
+  }
+  wrap(tls, 'connect', 'network', 'tls.connect', args => describeHost(args[0], args[1]));
+  wrap(net.Server.prototype, 'listen', 'network', 'listen', args => describeHost(args[0]));
+  wrap(globalThis, 'fetch', 'network', 'fetch', args => describeHost(args[0]));
+
+  for (const name of CHILD_PROCESS_FUNCTIONS) {
+    wrap(childProcess, name, 'process', name, args => describePath(args[0]));
+  }
+
+  // The worker has its own copy of process.env. Variables are recorded by name, in block mode
+  // they read as missing instead of throwing
+  const recordEnv = (operation: string, name: string | symbol) => {
+    if (typeof name === 'string') record('env', operation, name);
+  };
+  const hide = (name: string | symbol) => block && typeof name === 'string' && isRecording();
+  process.env = new Proxy(process.env, {
+    get(target, name) {
+      recordEnv('get', name);
+      return hide(name) ? undefined : Reflect.get(target, name);
+    },
+    has(target, name) {
+      recordEnv('has', name);
+      return hide(name) ? false : Reflect.has(target, name);
+    },
+    ownKeys(target) {
+      recordEnv('keys', '*');
+      return hide('*') ? [] : Reflect.ownKeys(target);
+    },
+    getOwnPropertyDescriptor(target, name) {
+      return hide(name) ? undefined : Reflect.getOwnPropertyDescriptor(target, name);
+    },
+    set(target, name, value) {
+      recordEnv('set', name);
+      return Reflect.set(target, name, value);
+    },
+    deleteProperty(target, name) {
+      recordEnv('delete', name);
+      return Reflect.deleteProperty(target, name);
+    },
+  });
+
+  return {
+    stop() {
+      active = false;
+      return [...recorded.values()];
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { loadClassStatically } from './static-loader';
+
+describe('loadClassStatically', () => {
+  let tempDir: string;
+
+  const writeFiles = async (files: Record<string, string>): Promise<void> => {
+    for (const [name, source] of Object.entries(files)) {
+      const filePath = path.join(tempDir, name);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, source);
+    }
+  };
+
+  const loadDescription = async (name: string): Promise<unknown> => {
+    const snapshot = await loadClassStatically(path.join(tempDir, name));
+    return snapshot?.properties.description;
+  };
+
+  before(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'static-loader-test-'));
+  });
+
+  after(() => fs.rm(tempDir, { recursive: true, force: true }));
+
+  it('reads a description assigned in the constructor of a compiled class', async () => {
+    await writeFiles({
+      'Assigned.node.js': `
+        class Assigned {
+          constructor() {
+            this.description = { name: 'assigned', version: 1, properties: [] };
+          }
+        }
+        exports.Assigned = Assigned;
+      `,
+    });
+
+    const snapshot = await loadClassStatically(path.join(tempDir, 'Assigned.node.js'));
+
+    assert.equal(snapshot?.className, 'Assigned');
+    assert.deepEqual(snapshot?.properties.description, {
+      name: 'assigned',
+      version: 1,
+      properties: [],
+    });
+  });
+
+  it('spreads objects and arrays', async () => {
+    await writeFiles({
+      'Spread.node.ts': `
+        const base = { displayName: 'Spread', version: 1 };
+        const shared = [{ name: 'first', type: 'string' }];
+        export class Spread {
+          description = {
+            ...base,
+            name: 'spread',
+            properties: [...shared, { name: 'second', type: 'number' }],
+          };
+        }
+      `,
+    });
+
+    assert.deepEqual(await loadDescription('Spread.node.ts'), {
+      displayName: 'Spread',
+      version: 1,
+      name: 'spread',
+      properties: [
+        { name: 'first', type: 'string' },
+        { name: 'second', type: 'number' },
+      ],
+    });
+  });
+
+  it('follows named and star re-exports', async () => {
+    await writeFiles({
+      'reexports/shared/fields.ts': `export const fields = [{ name: 'id', type: 'string' }];`,
+      'reexports/shared/index.ts': `export * from './fields';`,
+      'reexports/descriptions.ts': `export { fields as idFields } from './shared';`,
+      'reexports/Reexport.node.ts': `
+        import { idFields } from './descriptions';
+        export class Reexport {
+          description = { name: 'reexport', properties: idFields };
+        }
+      `,
+    });
+
+    assert.deepEqual(await loadDescription('reexports/Reexport.node.ts'), {
+      name: 'reexport',
+      properties: [{ name: 'id', type: 'string' }],
+    });
+  });
+
+  it('stops at modules re-exporting each other', async () => {
+    await writeFiles({
+      'cycle/a.ts': `export * from './b';`,
+      'cycle/b.ts': `export * from './a';\nexport const found = 'b';`,
+      'cycle/Cycle.node.ts': `
+        import { found, missing } from './a';
+        export class Cycle {
+          description = { name: 'cycle', found, missing };
+        }
+      `,
+    });
+
+    assert.deepEqual(await loadDescription('cycle/Cycle.node.ts'), {
+      name: 'cycle',
+      found: 'b',
+      missing: { __unresolved: 'a.ts#missing' },
+    });
+  });
+
+  it('resolves constructor variables before top-level ones with the same name', async () => {
+    await writeFiles({
+      'Shadowed.node.js': `
+        const description = { name: 'top-level' };
+        class Shadowed {
+          constructor(options) {
+            const description = { name: 'shadowed', options };
+            this.description = description;
+          }
+        }
+        exports.Shadowed = Shadowed;
+      `,
+    });
+
+    assert.deepEqual(await loadDescription('Shadowed.node.js'), {
+      name: 'shadowed',
+      options: { __unresolved: 'options' },
+    });
+  });
+});
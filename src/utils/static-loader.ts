@@ -0,0 +1,733 @@
+import { readFileSync, statSync } from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import type { LoadedClassSnapshot } from './module-loader';
+
+function isFile(filePath: string): boolean {
+  return statSync(filePath, { throwIfNoEntry: false })?.isFile() ?? false;
+}
+
+// Marker for functions, kept during evaluation so method names can still be listed
+const FUNCTION = Symbol('function');
+
+class ModuleNamespace {
+  constructor(public readonly filePath: string) {}
+}
+
+class ExternalBinding {
+  constructor(
+    public readonly specifier: string,
+    public readonly members: string[] = []
+  ) {}
+}
+
+class Unresolved {
+  constructor(public readonly expression: string) {}
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.js', '.cjs'];
+
+/**
+ * Resolve well known constants exported by n8n-workflow (e.g. NodeConnectionTypes.Main => 'main')
+ */
+function resolveExternalConstant(binding: ExternalBinding): string | undefined {
+  if (binding.specifier !== 'n8n-workflow' || binding.members.length !== 2) return undefined;
+  const [container, member] = binding.members;
+  if (container !== 'NodeConnectionType' && container !== 'NodeConnectionTypes') return undefined;
+  if (member === 'Main') return 'main';
+  if (member.startsWith('Ai') && member.length > 2) {
+    return `ai_${member.charAt(2).toLowerCase()}${member.slice(3)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Rebuilds object literals from source files without executing them
+ */
+class StaticEvaluator {
+  private sourceFiles = new Map<string, ts.SourceFile>();
+  private evaluating = new Set<string>();
+
+  getSourceFile(filePath: string): ts.SourceFile {
+    let sourceFile = this.sourceFiles.get(filePath);
+    if (!sourceFile) {
+      sourceFile = ts.createSourceFile(
+        filePath,
+        readFileSync(filePath, 'utf8'),
+        ts.ScriptTarget.Latest,
+        true,
+        filePath.endsWith('.ts') ? ts.ScriptKind.TS : ts.ScriptKind.JS
+      );
+      this.sourceFiles.set(filePath, sourceFile);
+    }
+    return sourceFile;
+  }
+
+  /**
+   * Resolve a relative import to a file, preferring the extension of the importing file
+   */
+  private resolveModule(fromFile: string, specifier: string): string | null {
+    const basePath = path.resolve(path.dirname(fromFile), specifier);
+    const extensions = fromFile.endsWith('.ts')
+      ? SOURCE_EXTENSIONS
+      : [...SOURCE_EXTENSIONS.slice(1), '.ts'];
+    const candidates = [
+      basePath,
+      ...extensions.map(extension => basePath + extension),
+      ...extensions.map(extension => path.join(basePath, `index${extension}`)),
+    ];
+    // Directory imports resolve to their index file, not the directory itself
+    return candidates.find(isFile) ?? null;
+  }
+
+  private requireModule(fromFile: string, specifier: string): ModuleNamespace | ExternalBinding {
+    if (!specifier.startsWith('.')) {
+      return new ExternalBinding(specifier);
+    }
+    const resolved = this.resolveModule(fromFile, specifier);
+    if (!resolved) {
+      return new ExternalBinding(specifier);
+    }
+    return new ModuleNamespace(resolved);
+  }
+
+  /**
+   * Evaluate with a guard against circular references between declarations and modules
+   */
+  private guarded(key: string, fallback: ts.Node | string, evaluate: () => unknown): unknown {
+    if (this.evaluating.has(key)) {
+      return new Unresolved(typeof fallback === 'string' ? fallback : fallback.getText());
+    }
+    this.evaluating.add(key);
+    try {
+      return evaluate();
+    } finally {
+      this.evaluating.delete(key);
+    }
+  }
+
+  /**
+   * Find the declaration of a name in the functions and blocks around a reference, it hides a
+   * top-level binding with the same name
+   */
+  private findLocalDeclaration(name: string, reference: ts.Node): ts.Node | undefined {
+    for (let scope = reference.parent; scope && !ts.isSourceFile(scope); scope = scope.parent) {
+      if (ts.isFunctionLike(scope)) {
+        const parameter = scope.parameters.find(
+          parameter => ts.isIdentifier(parameter.name) && parameter.name.text === name
+        );
+        if (parameter) return parameter;
+      }
+      if (!ts.isBlock(scope)) continue;
+
+      for (const statement of scope.statements) {
+        if (ts.isVariableStatement(statement)) {
+          const declaration = statement.declarationList.declarations.find(
+            declaration => ts.isIdentifier(declaration.name) && declaration.name.text === name
+          );
+          if (declaration) return declaration;
+        } else if (
+          (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+          statement.name?.text === name
+        ) {
+          return statement;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the value of a binding, local to the functions and blocks around the reference or
+   * top-level in its source file
+   */
+  resolveIdentifier(name: string, sourceFile: ts.SourceFile, reference: ts.Node): unknown {
+    if (name === 'undefined') return undefined;
+
+    const local = this.findLocalDeclaration(name, reference);
+    if (local) {
+      if (ts.isVariableDeclaration(local) && local.initializer) {
+        const initializer = local.initializer;
+        return this.guarded(`${sourceFile.fileName}#${name}@${local.pos}`, reference, () =>
+          this.evaluate(initializer, sourceFile)
+        );
+      }
+      if (ts.isFunctionDeclaration(local) || ts.isClassDeclaration(local)) return FUNCTION;
+      // Parameters and variables without an initializer
+      return new Unresolved(reference.getText());
+    }
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name) && declaration.name.text === name) {
+            const initializer = declaration.initializer;
+            if (!initializer) return new Unresolved(reference.getText());
+            return this.guarded(`${sourceFile.fileName}#${name}`, reference, () =>
+              this.evaluate(initializer, sourceFile)
+            );
+          }
+        }
+      } else if (
+        (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+        statement.name?.text === name
+      ) {
+        return FUNCTION;
+      } else if (ts.isEnumDeclaration(statement) && statement.name.text === name) {
+        return this.evaluateEnum(statement, sourceFile);
+      } else if (ts.isImportDeclaration(statement) && statement.importClause) {
+        const specifier = (statement.moduleSpecifier as ts.StringLiteral).text;
+        const { name: defaultImport, namedBindings } = statement.importClause;
+
+        if (defaultImport?.text === name) {
+          return this.getMember(this.requireModule(sourceFile.fileName, specifier), 'default');
+        }
+        if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+          if (namedBindings.name.text === name) {
+            return this.requireModule(sourceFile.fileName, specifier);
+          }
+        } else if (namedBindings) {
+          for (const element of namedBindings.elements) {
+            if (element.name.text === name) {
+              const importedName = element.propertyName?.text ?? element.name.text;
+              return this.getMember(
+                this.requireModule(sourceFile.fileName, specifier),
+                importedName
+              );
+            }
+          }
+        }
+      }
+    }
+
+    return new Unresolved(reference.getText());
+  }
+
+  private evaluateEnum(declaration: ts.EnumDeclaration, sourceFile: ts.SourceFile): unknown {
+    const result: Record<string, unknown> = {};
+    let nextValue = 0;
+    for (const member of declaration.members) {
+      const memberName = member.name.getText().replace(/^['"]|['"]$/g, '');
+      const value = member.initializer ? this.evaluate(member.initializer, sourceFile) : nextValue;
+      result[memberName] = value;
+      if (typeof value === 'number') nextValue = value + 1;
+    }
+    return result;
+  }
+
+  /**
+   * Find the value of a named export of a module. Modules re-exporting each other with
+   * `export *` are only searched once per lookup
+   */
+  getExport(filePath: string, exportName: string): unknown {
+    return this.guarded(
+      `${filePath}#export:${exportName}`,
+      `${path.basename(filePath)}#${exportName}`,
+      () => this.findExport(filePath, exportName)
+    );
+  }
+
+  private findExport(filePath: string, exportName: string): unknown {
+    const sourceFile = this.getSourceFile(filePath);
+
+    for (const statement of sourceFile.statements) {
+      // TypeScript sources: export const / export function / export { a as b } / export * from
+      const isExported = ts
+        .getModifiers(statement as ts.HasModifiers)
+        ?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+
+      if (isExported) {
+        if (ts.isVariableStatement(statement)) {
+          for (const declaration of statement.declarationList.declarations) {
+            if (ts.isIdentifier(declaration.name) && declaration.name.text === exportName) {
+              return this.resolveIdentifier(exportName, sourceFile, declaration.name);
+            }
+          }
+        } else if (
+          (ts.isFunctionDeclaration(statement) ||
+            ts.isClassDeclaration(statement) ||
+            ts.isEnumDeclaration(statement)) &&
+          statement.name?.text === exportName
+        ) {
+          return this.resolveIdentifier(exportName, sourceFile, statement.name);
+        }
+      }
+
+      if (ts.isExportDeclaration(statement)) {
+        const specifier = statement.moduleSpecifier
+          ? (statement.moduleSpecifier as ts.StringLiteral).text
+          : undefined;
+
+        if (!statement.exportClause && specifier) {
+          const target = this.requireModule(filePath, specifier);
+          if (target instanceof ModuleNamespace) {
+            const value = this.getExport(target.filePath, exportName);
+            if (!(value instanceof Unresolved)) return value;
+          }
+        } else if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+          for (const element of statement.exportClause.elements) {
+            if (element.name.text !== exportName) continue;
+            const localName = element.propertyName?.text ?? element.name.text;
+            if (specifier) {
+              return this.getMember(this.requireModule(filePath, specifier), localName);
+            }
+            return this.resolveIdentifier(localName, sourceFile, element.name);
+          }
+        }
+      }
+
+      // Compiled CommonJS: exports.name = value / Object.defineProperty / __exportStar
+      if (ts.isExpressionStatement(statement)) {
+        const value = this.getCommonJsExport(statement.expression, sourceFile, exportName);
+        if (value !== undefined) return value;
+      }
+    }
+
+    return new Unresolved(`${path.basename(filePath)}#${exportName}`);
+  }
+
+  private getCommonJsExport(
+    expression: ts.Expression,
+    sourceFile: ts.SourceFile,
+    exportName: string
+  ): unknown {
+    if (
+      ts.isBinaryExpression(expression) &&
+      expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+    ) {
+      const target = expression.left.getText();
+      const right = expression.right;
+      // Skip `exports.a = exports.b = void 0` preambles
+      if (
+        ts.isVoidExpression(right) ||
+        (ts.isBinaryExpression(right) && right.operatorToken.kind === ts.SyntaxKind.EqualsToken)
+      ) {
+        return undefined;
+      }
+
+      if (target === `exports.${exportName}` || target === `module.exports.${exportName}`) {
+        return this.evaluate(right, sourceFile);
+      }
+      if (target === 'module.exports') {
+        const value = this.evaluate(right, sourceFile);
+        if (value && typeof value === 'object' && exportName in value) {
+          return (value as Record<string, unknown>)[exportName];
+        }
+      }
+      return undefined;
+    }
+
+    if (!ts.isCallExpression(expression)) return undefined;
+    const callee = expression.expression.getText();
+    const [first, second, third] = expression.arguments;
+
+    if (
+      callee === 'Object.defineProperty' &&
+      first?.getText() === 'exports' &&
+      second &&
+      ts.isStringLiteral(second) &&
+      second.text === exportName &&
+      third &&
+      ts.isObjectLiteralExpression(third)
+    ) {
+      for (const property of third.properties) {
+        if (property.name?.getText() !== 'get') continue;
+        const body = ts.isPropertyAssignment(property)
+          ? property.initializer
+          : ts.isMethodDeclaration(property)
+            ? property
+            : undefined;
+        const returned = body && this.findReturnExpression(body);
+        if (returned) return this.evaluate(returned, sourceFile);
+      }
+      return undefined;
+    }
+
+    if (callee.endsWith('__exportStar') && first && ts.isCallExpression(first)) {
+      const target = this.evaluate(first, sourceFile);
+      if (target instanceof ModuleNamespace) {
+        const value = this.getExport(target.filePath, exportName);
+        if (!(value instanceof Unresolved)) return value;
+      }
+    }
+
+    return undefined;
+  }
+
+  private findReturnExpression(node: ts.Node): ts.Expression | undefined {
+    if (ts.isArrowFunction(node) && !ts.isBlock(node.body)) return node.body;
+    let result: ts.Expression | undefined;
+    node.forEachChild(function visit(child) {
+      if (result) return;
+      if (ts.isReturnStatement(child) && child.expression) {
+        result = child.expression;
+        return;
+      }
+      child.forEachChild(visit);
+    });
+    return result;
+  }
+
+  private getMember(target: unknown, name: string): unknown {
+    if (target instanceof ModuleNamespace) {
+      return this.getExport(target.filePath, name);
+    }
+    if (target instanceof ExternalBinding) {
+      const binding = new ExternalBinding(target.specifier, [...target.members, name]);
+      return resolveExternalConstant(binding) ?? binding;
+    }
+    if (target instanceof Unresolved || target === FUNCTION) {
+      return undefined;
+    }
+    if (target !== null && typeof target === 'object') {
+      return (target as Record<string, unknown>)[name];
+    }
+    return undefined;
+  }
+
+  /**
+   * Evaluate an expression to plain data, marking what can't be resolved statically
+   */
+  evaluate(node: ts.Expression, sourceFile: ts.SourceFile): unknown {
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+    if (ts.isNumericLiteral(node)) return Number(node.text);
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+
+    if (
+      ts.isParenthesizedExpression(node) ||
+      ts.isAsExpression(node) ||
+      ts.isSatisfiesExpression(node) ||
+      ts.isTypeAssertionExpression(node) ||
+      ts.isNonNullExpression(node)
+    ) {
+      return this.evaluate(node.expression, sourceFile);
+    }
+
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isClassExpression(node)) {
+      return FUNCTION;
+    }
+
+    if (ts.isIdentifier(node)) {
+      return this.resolveIdentifier(node.text, sourceFile, node);
+    }
+
+    if (ts.isPrefixUnaryExpression(node)) {
+      const operand = this.evaluate(node.operand, sourceFile);
+      if (node.operator === ts.SyntaxKind.MinusToken && typeof operand === 'number') {
+        return -operand;
+      }
+      if (node.operator === ts.SyntaxKind.PlusToken && typeof operand === 'number') {
+        return operand;
+      }
+      if (node.operator === ts.SyntaxKind.ExclamationToken && typeof operand === 'boolean') {
+        return !operand;
+      }
+      // `!0` and `!1` are common in minified output
+      if (node.operator === ts.SyntaxKind.ExclamationToken && typeof operand === 'number') {
+        return !operand;
+      }
+      return new Unresolved(node.getText());
+    }
+
+    if (ts.isTemplateExpression(node)) {
+      let result = node.head.text;
+      for (const span of node.templateSpans) {
+        const value = this.evaluate(span.expression, sourceFile);
+        if (!['string', 'number', 'boolean'].includes(typeof value)) {
+          return new Unresolved(node.getText());
+        }
+        result += String(value) + span.literal.text;
+      }
+      return result;
+    }
+
+    if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+      const left = this.evaluate(node.left, sourceFile);
+      const right = this.evaluate(node.right, sourceFile);
+      const isPrimitive = (value: unknown): value is string | number =>
+        typeof value === 'string' || typeof value === 'number';
+      if (isPrimitive(left) && isPrimitive(right)) {
+        return typeof left === 'number' && typeof right === 'number'
+          ? left + right
+          : `${left}${right}`;
+      }
+      return new Unresolved(node.getText());
+    }
+
+    if (ts.isArrayLiteralExpression(node)) {
+      const result: unknown[] = [];
+      for (const element of node.elements) {
+        if (ts.isSpreadElement(element)) {
+          const spread = this.evaluate(element.expression, sourceFile);
+          if (Array.isArray(spread)) {
+            result.push(...spread);
+          } else {
+            result.push(new Unresolved(element.getText()));
+          }
+        } else if (!ts.isOmittedExpression(element)) {
+          result.push(this.evaluate(element, sourceFile));
+        }
+      }
+      return result;
+    }
+
+    if (ts.isObjectLiteralExpression(node)) {
+      return this.evaluateObject(node, sourceFile);
+    }
+
+    if (ts.isPropertyAccessExpression(node)) {
+      const target = this.evaluate(node.expression, sourceFile);
+      if (target === null || (typeof target !== 'object' && typeof target !== 'symbol')) {
+        return new Unresolved(node.getText());
+      }
+      if (target instanceof Unresolved || target === FUNCTION) {
+        return new Unresolved(node.getText());
+      }
+      return this.getMember(target, node.name.text);
+    }
+
+    if (ts.isElementAccessExpression(node)) {
+      const target = this.evaluate(node.expression, sourceFile);
+      const key = this.evaluate(node.argumentExpression, sourceFile);
+      if (typeof key !== 'string' && typeof key !== 'number') {
+        return new Unresolved(node.getText());
+      }
+      const value = this.getMember(target, String(key));
+      return value === undefined ? new Unresolved(node.getText()) : value;
+    }
+
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression.getText();
+      const [argument] = node.arguments;
+      if (callee === 'require' && argument && ts.isStringLiteral(argument)) {
+        return this.requireModule(sourceFile.fileName, argument.text);
+      }
+      // tsc interop helpers wrap require() calls
+      if (/(^|\.)__import(Default|Star)$/.test(callee) && argument) {
+        return this.evaluate(argument, sourceFile);
+      }
+    }
+
+    if (ts.isConditionalExpression(node)) {
+      const condition = this.evaluate(node.condition, sourceFile);
+      if (typeof condition === 'boolean') {
+        return this.evaluate(condition ? node.whenTrue : node.whenFalse, sourceFile);
+      }
+    }
+
+    return new Unresolved(node.getText());
+  }
+
+  private evaluateObject(node: ts.ObjectLiteralExpression, sourceFile: ts.SourceFile): unknown {
+    const result: Record<string, unknown> = {};
+
+    for (const property of node.properties) {
+      if (ts.isSpreadAssignment(property)) {
+        const spread = this.evaluate(property.expression, sourceFile);
+        if (spread && typeof spread === 'object' && !isReference(spread)) {
+          Object.assign(result, spread);
+        } else {
+          appendUnresolved(result, '__unresolvedSpreads', property.getText());
+        }
+        continue;
+      }
+
+      const key = this.getPropertyKey(property.name, sourceFile);
+      if (key === undefined) {
+        appendUnresolved(result, '__unresolvedKeys', property.getText());
+        continue;
+      }
+
+      if (ts.isPropertyAssignment(property)) {
+        result[key] = this.evaluate(property.initializer, sourceFile);
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        result[key] = this.resolveIdentifier(property.name.text, sourceFile, property.name);
+      } else {
+        // Methods and accessors
+        result[key] = FUNCTION;
+      }
+    }
+
+    return result;
+  }
+
+  private getPropertyKey(
+    name: ts.PropertyName | undefined,
+    sourceFile: ts.SourceFile
+  ): string | undefined {
+    if (!name) return undefined;
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    if (ts.isComputedPropertyName(name)) {
+      const key = this.evaluate(name.expression, sourceFile);
+      return typeof key === 'string' || typeof key === 'number' ? String(key) : undefined;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Record the source text of an object member that couldn't be evaluated
+ */
+function appendUnresolved(
+  result: Record<string, unknown>,
+  key: '__unresolvedSpreads' | '__unresolvedKeys',
+  text: string
+): void {
+  result[key] = [...((result[key] as string[] | undefined) || []), text];
+}
+
+function isReference(value: unknown): boolean {
+  return (
+    value instanceof ModuleNamespace ||
+    value instanceof ExternalBinding ||
+    value instanceof Unresolved ||
+    value === FUNCTION
+  );
+}
+
+/**
+ * Turn evaluated values into JSON data: functions are dropped like JSON.stringify does,
+ * everything that couldn't be resolved becomes { __unresolved: '<source text>' }
+ */
+function toData(value: unknown, expression?: string): unknown {
+  if (value === FUNCTION) return undefined;
+  if (value instanceof Unresolved) return { __unresolved: value.expression };
+  if (value instanceof ExternalBinding) {
+    return { __unresolved: expression ?? [value.specifier, ...value.members].join('.') };
+  }
+  if (value instanceof ModuleNamespace) {
+    return { __unresolved: expression ?? path.basename(value.filePath) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => toData(item) ?? null);
+  }
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const data = toData(item);
+      if (data !== undefined) result[key] = data;
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Collect the instance fields of a class: property declarations and `this.x = ...` in the constructor
+ */
+function collectClassFields(
+  evaluator: StaticEvaluator,
+  classNode: ts.ClassLikeDeclaration,
+  sourceFile: ts.SourceFile
+): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  for (const member of classNode.members) {
+    const isStatic = ts
+      .getModifiers(member as ts.HasModifiers)
+      ?.some(modifier => modifier.kind === ts.SyntaxKind.StaticKeyword);
+    if (isStatic) continue;
+
+    if (ts.isPropertyDeclaration(member) && member.initializer && ts.isIdentifier(member.name)) {
+      fields[member.name.text] = evaluator.evaluate(member.initializer, sourceFile);
+    } else if (ts.isConstructorDeclaration(member) && member.body) {
+      for (const statement of member.body.statements) {
+        if (!ts.isExpressionStatement(statement)) continue;
+        const expression = statement.expression;
+        if (
+          ts.isBinaryExpression(expression) &&
+          expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+          ts.isPropertyAccessExpression(expression.left) &&
+          expression.left.expression.kind === ts.SyntaxKind.ThisKeyword
+        ) {
+          fields[expression.left.name.text] = evaluator.evaluate(expression.right, sourceFile);
+        }
+      }
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Pick the node or credential class of a file: the first class with a description, then
+ * the first class with a name field, then the first class
+ */
+function findMainClass(
+  evaluator: StaticEvaluator,
+  sourceFile: ts.SourceFile
+): { node: ts.ClassLikeDeclaration; fields: Record<string, unknown> } | null {
+  const classes: ts.ClassLikeDeclaration[] = [];
+  sourceFile.forEachChild(function visit(child) {
+    if (ts.isClassDeclaration(child) || ts.isClassExpression(child)) {
+      classes.push(child);
+    }
+    child.forEachChild(visit);
+  });
+
+  const candidates = classes.map(node => ({
+    node,
+    fields: collectClassFields(evaluator, node, sourceFile),
+  }));
+
+  return (
+    candidates.find(candidate => 'description' in candidate.fields) ??
+    candidates.find(candidate => 'name' in candidate.fields) ??
+    candidates[0] ??
+    null
+  );
+}
+
+/**
+ * Find the TypeScript source next to or above a compiled file (e.g. dist/nodes/X.node.js => nodes/X.node.ts)
+ */
+function findTypeScriptSource(filePath: string): string | null {
+  if (filePath.endsWith('.ts')) return filePath;
+
+  const tsPath = filePath.replace(/\.(c?js)$/, '.ts');
+  const candidates = [tsPath];
+  const distSegment = `${path.sep}dist${path.sep}`;
+  if (tsPath.includes(distSegment)) {
+    candidates.push(tsPath.replace(distSegment, path.sep));
+    candidates.push(tsPath.replace(distSegment, `${path.sep}src${path.sep}`));
+  }
+
+  return candidates.find(isFile) ?? null;
+}
+
+/**
+ * Read a node or credential class from source without running it. The TypeScript source is
+ * used when it ships with the package, the compiled JavaScript otherwise.
+ */
+export async function loadClassStatically(filePath: string): Promise<LoadedClassSnapshot | null> {
+  const sourcePath = findTypeScriptSource(filePath) ?? filePath;
+  const evaluator = new StaticEvaluator();
+  const sourceFile = evaluator.getSourceFile(sourcePath);
+
+  const mainClass = findMainClass(evaluator, sourceFile);
+  if (!mainClass) {
+    return null;
+  }
+
+  const { methods, ...fields } = mainClass.fields;
+  const snapshot: LoadedClassSnapshot = {
+    backend: 'static',
+    className: mainClass.node.name?.text || '',
+    properties: toData(fields) as Record<string, unknown>,
+  };
+
+  if (methods && typeof methods === 'object' && !isReference(methods)) {
+    snapshot.methods = {};
+    for (const [group, entries] of Object.entries(methods)) {
+      if (entries && typeof entries === 'object' && !isReference(entries)) {
+        snapshot.methods[group] = Object.keys(entries);
+      }
+    }
+  }
+
+  return snapshot;
+}
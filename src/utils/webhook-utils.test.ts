@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { isValidWebhookUrl, postWebhook } from './webhook-utils';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+describe('postWebhook', () => {
+  let server: http.Server;
+  let url: string;
+  // Status codes answered in order, 200 once they are used up
+  let statusCodes: number[] = [];
+  let received: ReceivedRequest[] = [];
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => {
+        received.push({
+          headers: request.headers,
+          body: JSON.parse(Buffer.concat(chunks).toString('utf8')),
+        });
+        response.writeHead(statusCodes.shift() ?? 200).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('posts the body as JSON with the extra headers', async () => {
+    statusCodes = [];
+    received = [];
+    const delivery = await postWebhook(
+      url,
+      { nodes: 1 },
+      { headers: { Authorization: 'Bearer secret' } }
+    );
+
+    assert.equal(delivery.delivered, true);
+    assert.equal(delivery.attempts, 1);
+    assert.equal(delivery.statusCode, 200);
+    assert.deepEqual(received[0].body, { nodes: 1 });
+    assert.equal(received[0].headers['content-type'], 'application/json');
+    assert.equal(received[0].headers.authorization, 'Bearer secret');
+  });
+
+  it('retries until a 2xx response', async () => {
+    statusCodes = [500, 503];
+    received = [];
+    const delivery = await postWebhook(url, { nodes: 2 }, { retryDelayMs: 1 });
+
+    assert.equal(delivery.delivered, true);
+    assert.equal(delivery.attempts, 3);
+    assert.equal(received.length, 3);
+  });
+
+  it('gives up after the configured attempts', async () => {
+    statusCodes = [500, 500, 500];
+    received = [];
+    const delivery = await postWebhook(url, {}, { attempts: 2, retryDelayMs: 1 });
+
+    assert.deepEqual(delivery, {
+      delivered: false,
+      attempts: 2,
+      statusCode: 500,
+      error: 'HTTP 500',
+    });
+    assert.equal(received.length, 2);
+  });
+});
+
+describe('isValidWebhookUrl', () => {
+  it('only accepts absolute http(s) URLs', () => {
+    assert.equal(isValidWebhookUrl('https://example.com/hook'), true);
+    assert.equal(isValidWebhookUrl('ftp://example.com/hook'), false);
+    assert.equal(isValidWebhookUrl('/hook'), false);
+  });
+});
@@ -0,0 +1,79 @@
+import { Logger, silentLogger } from './logger';
+
+export interface WebhookOptions {
+  // Attempts including the first one (default 5)
+  attempts?: number;
+  // Delay between attempts (default 1000)
+  retryDelayMs?: number;
+  // Time limit for one attempt (default 30000)
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  logger?: Logger;
+}
+
+export interface WebhookDelivery {
+  delivered: boolean;
+  attempts: number;
+  // Status of the last response, missing when no response was received
+  statusCode?: number;
+  error?: string;
+}
+
+/**
+ * Check that a webhook URL is an absolute http(s) URL
+ */
+export function isValidWebhookUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * POST a JSON body to a webhook, retrying until a 2xx response. Never throws, the outcome is
+ * returned instead
+ */
+export async function postWebhook(
+  url: string,
+  body: unknown,
+  options: WebhookOptions = {}
+): Promise<WebhookDelivery> {
+  const attempts = options.attempts ?? 5;
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+  const logger = options.logger ?? silentLogger;
+  const payload = JSON.stringify(body);
+  const delivery: WebhookDelivery = { delivered: false, attempts: 0 };
+
+  while (delivery.attempts < attempts) {
+    delivery.attempts++;
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: payload,
+        signal: AbortSignal.timeout(options.timeoutMs ?? 30000),
+      });
+      delivery.statusCode = response.status;
+      delivery.error = undefined;
+      if (response.ok) {
+        delivery.delivered = true;
+        return delivery;
+      }
+      delivery.error = `HTTP ${response.status}`;
+    } catch (error) {
+      delivery.statusCode = undefined;
+      delivery.error = error instanceof Error ? error.message : String(error);
+    }
+
+    logger.warn(
+      `⚠️  Webhook attempt ${delivery.attempts} of ${attempts} failed (${delivery.error})`
+    );
+    if (delivery.attempts < attempts) {
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+    }
+  }
+
+  return delivery;
+}